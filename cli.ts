@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import { exportSchemaCommand } from './commands/export-schema';
+import { generateCommand } from './commands/generate';
+import { generateV1Command } from './commands/generate-v1';
+import { helloCommand } from './commands/hello';
+import { ingestCommand } from './commands/ingest';
+import { purgeCommand } from './commands/purge';
+import { queryCommand } from './commands/query';
+import { replayDeadLettersCommand } from './commands/replay-dead-letters';
+import { statsCommand } from './commands/stats';
+import { watchCommand } from './commands/watch';
+import { runCli } from './lib/cli';
+
+// Single entry point for every tool in this repo: `npm run cli -- <command>`
+// (or `tsx cli.ts <command>`). `--help` lists the commands and, after a
+// command, its flags. The exit code tells scripts how it went (lib/cli.ts).
+
+const COMMANDS = [
+  helloCommand,
+  generateCommand,
+  generateV1Command,
+  replayDeadLettersCommand,
+  ingestCommand,
+  queryCommand,
+  statsCommand,
+  watchCommand,
+  purgeCommand,
+  exportSchemaCommand,
+];
+
+process.exitCode = await runCli('cli.ts', COMMANDS, process.argv.slice(2));
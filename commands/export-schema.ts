@@ -0,0 +1,49 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { defineCommand } from '../lib/cli';
+import { PROTOCOLS } from '../lib/protocols';
+import { aggregatedMetricSchema, generatedEntitySchema, priceSnapshotSchema } from '../lib/schema';
+
+// Writes the entity schemas of lib/schema.ts as JSON Schema, so the dashboard
+// (or any other consumer) can validate payloads and generate its own types
+// from the same definitions as the generators. Each protocol plugin names the
+// schemas of its events. Cross-field rules (e.g. that a summary's
+// transactionCount does not exceed its eventTypeCounts) have no JSON Schema
+// equivalent and are only checked by the schemas themselves.
+
+const DEFAULT_OUT = 'schema/entities.schema.json';
+
+export const exportSchemaCommand = defineCommand({
+  name: 'export-schema',
+  summary: 'Write the entity schemas as JSON Schema',
+  description:
+    'Writes the entity schemas of lib/schema.ts as JSON Schema, for the dashboard or any\n' +
+    'other consumer to validate payloads and generate types from.',
+  args: [{ name: 'out', description: `Output path (default: ${DEFAULT_OUT})` }],
+  flags: {},
+
+  async run({ args: [out = DEFAULT_OUT] }) {
+    // Name the entity types so they appear under $defs instead of inline
+    const registry = z.registry<{ id: string }>();
+    for (const { jsonSchemaDefs } of PROTOCOLS) {
+      for (const [id, schema] of Object.entries(jsonSchemaDefs)) {
+        registry.add(schema, { id });
+      }
+    }
+    registry.add(aggregatedMetricSchema, { id: 'AggregatedMetric' });
+    registry.add(priceSnapshotSchema, { id: 'PriceSnapshot' });
+
+    const schema = {
+      ...z.toJSONSchema(generatedEntitySchema, { metadata: registry }),
+      title: 'GeneratedEntity',
+      description: 'An entity pushed by the event generators (see DATA_SCHEMA.md)',
+    };
+
+    await mkdir(dirname(out), { recursive: true });
+    await writeFile(out, JSON.stringify(schema, null, 2) + '\n', 'utf8');
+    console.log(
+      `✅ Wrote JSON Schema for ${Object.keys(schema.$defs ?? {}).length} entity types to ${out}`
+    );
+  },
+});
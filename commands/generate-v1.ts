@@ -0,0 +1,16 @@
+import { generatorCommand } from '../lib/generator-command';
+
+// The original Aave-only generator, now the aave-only scenario run by the same
+// library as `generate`
+export const generateV1Command = generatorCommand({
+  name: 'generate-v1',
+  summary: 'Push simulated Aave V3 events (the original generator)',
+  description:
+    'Pushes simulated Aave V3 events and their hourly summaries in the market of the\n' +
+    'original generator (the aave-only scenario). Same options as `generate`.',
+  title: '🚀 Aave Event Generator for Arkiv',
+  version: 'event-generator',
+  count: 50,
+  scenario: 'aave-only',
+  arkivDelayMs: 3000,
+});
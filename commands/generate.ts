@@ -0,0 +1,17 @@
+import { generatorCommand } from '../lib/generator-command';
+
+// Simulated activity of every registered protocol (lib/protocols/) in the
+// default market, with hourly summaries and price snapshots
+export const generateCommand = generatorCommand({
+  name: 'generate',
+  summary: 'Push simulated Aave V3 and Uniswap V3 activity',
+  description:
+    'Pushes simulated Aave V3 and Uniswap V3 events, hourly summaries and price snapshots.\n' +
+    'Every run is saved in a checkpoint and can be resumed with --resume, which takes the\n' +
+    'whole configuration from the checkpoint and ignores the other flags.',
+  title: '🚀 Enhanced Arkiv Event Generator (Multi-Protocol)',
+  version: 'event-generator-v2',
+  count: 100,
+  scenario: 'default',
+  arkivDelayMs: 2000,
+});
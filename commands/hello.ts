@@ -1,44 +1,38 @@
-import 'dotenv/config';
-import { createPublicClient, createWalletClient, http } from '@arkiv-network/sdk';
-import { privateKeyToAccount } from '@arkiv-network/sdk/accounts';
-import { mendoza } from '@arkiv-network/sdk/chains';
 import { eq } from '@arkiv-network/sdk/query';
+import { defineCommand } from '../lib/cli';
+import {
+  arkivChain,
+  arkivNetworkName,
+  createArkivPublicClient,
+  createArkivWalletClient,
+} from '../lib/clients';
+import { decodePayload } from '../lib/encoding';
 
 // Helper function to convert string to payload
 function stringToPayload(str: string): Uint8Array {
   return new TextEncoder().encode(str);
 }
 
-async function main() {
-  console.log('🚀 Arkiv Hello World Demo\n');
+export const helloCommand = defineCommand({
+  name: 'hello',
+  summary: 'Create and read back a "Hello World" entity',
+  description:
+    'Creates a "Hello World" entity on Arkiv with the account in PRIVATE_KEY, then queries\n' +
+    'it back: the quickest check that the .env setup works.',
+  flags: {},
 
-  // Check if private key is set
-  if (
-    !process.env.PRIVATE_KEY ||
-    process.env.PRIVATE_KEY === '0x0000000000000000000000000000000000000000000000000000000000000000'
-  ) {
-    console.error('❌ Error: Please set your PRIVATE_KEY in the .env file');
-    console.log('💡 Get testnet funds from: https://mendoza.hoodi.arkiv.network/faucet/');
-    process.exit(1);
-  }
+  async run() {
+    console.log('🚀 Arkiv Hello World Demo\n');
 
-  // Initialize the public client (for reading data)
-  const publicClient = createPublicClient({
-    chain: mendoza,
-    transport: http(process.env.RPC_URL),
-  });
+    // Initialize the public client (for reading data)
+    const publicClient = createArkivPublicClient();
 
-  // Initialize the wallet client (for writing data)
-  const walletClient = createWalletClient({
-    chain: mendoza,
-    transport: http(process.env.RPC_URL),
-    account: privateKeyToAccount(process.env.PRIVATE_KEY as `0x${string}`),
-  });
+    // Initialize the wallet client (for writing data)
+    const walletClient = createArkivWalletClient();
 
-  console.log('✅ Connected to Arkiv Mendoza Testnet');
-  console.log(`📍 Account: ${walletClient.account?.address}\n`);
+    console.log(`✅ Connected to ${arkivNetworkName()}`);
+    console.log(`📍 Account: ${walletClient.account?.address}\n`);
 
-  try {
     // Create a simple "Hello World" entity on Arkiv
     console.log('📝 Creating "Hello World" entity...');
     const { entityKey, txHash } = await walletClient.createEntity({
@@ -55,7 +49,8 @@ async function main() {
     console.log('✅ Entity created successfully!');
     console.log(`   Entity Key: ${entityKey}`);
     console.log(`   Transaction Hash: ${txHash}`);
-    console.log(`   Explorer: https://explorer.mendoza.hoodi.arkiv.network/tx/${txHash}\n`);
+    const explorer = arkivChain().blockExplorers?.default.url;
+    console.log(explorer ? `   Explorer: ${explorer}/tx/${txHash}\n` : '');
 
     // Wait a moment for the transaction to be processed
     console.log('⏳ Waiting for transaction to be processed...');
@@ -68,6 +63,7 @@ async function main() {
       .where(eq('type', 'greeting'))
       .withAttributes(true)
       .withPayload(true)
+      .withMetadata(true)
       .fetch();
 
     console.log(`✅ Found ${result.entities.length} greeting entity(ies)`);
@@ -76,7 +72,7 @@ async function main() {
       const entity = result.entities[0];
       console.log('\n📋 Entity Details:');
       console.log(`   Key: ${entity.key}`);
-      console.log(`   Content: ${new TextDecoder().decode(entity.payload)}`);
+      console.log(`   Content: ${decodePayload<string>(entity)}`);
       console.log(`   Attributes:`);
       entity.attributes.forEach((attr) => {
         console.log(`      ${attr.key}: ${attr.value}`);
@@ -85,13 +81,8 @@ async function main() {
 
     console.log('\n🎉 Hello World demo completed successfully!');
     console.log('\n💡 Next steps:');
-    console.log('   - Explore entity subscriptions with subscribeEntityEvents()');
+    console.log('   - Watch entity changes live with npm run watch');
     console.log('   - Try creating relationships between entities');
     console.log('   - Build a more complex application with queries');
-  } catch (error) {
-    console.error('❌ Error:', error);
-    process.exit(1);
-  }
-}
-
-main();
+  },
+});
@@ -0,0 +1,309 @@
+import { isAddress, JsonRpcProvider } from 'ethers';
+import { entityAttributes } from '../lib/attributes';
+import { defineCommand, EXIT_CODES, UsageError } from '../lib/cli';
+import { arkivNetworkName, createArkivPublicClient, createArkivWalletClient } from '../lib/clients';
+import { appendDeadLetters, DEFAULT_DEAD_LETTER_PATH } from '../lib/dead-letters';
+import { encodePayload, PAYLOAD_ENCODINGS } from '../lib/encoding';
+import {
+  fetchLogs,
+  readLogFile,
+  UnmappedLogError,
+  writeLogFile,
+  type RawLog,
+} from '../lib/evm-logs';
+import { createLogIngester } from '../lib/log-ingest';
+import { NETWORK_IDS, SOURCE_NETWORKS } from '../lib/networks';
+import { protocolPlugin, PROTOCOLS } from '../lib/protocols';
+import { DEFAULT_RETRY_POLICY } from '../lib/retry';
+import { createRunId, runTags, type RunTags } from '../lib/run-tags';
+import { loadScenario, ScenarioError } from '../lib/scenario';
+import { EntityValidationError, validateEntity } from '../lib/schema';
+import { createArkivSink, createOfflineSink, SINK_FLAGS, type EntitySink } from '../lib/sinks';
+import type { ProtocolEvent } from '../lib/types';
+import { createWriteQueue, formatThroughput } from '../lib/write-queue';
+
+// Pushes real protocol events: logs of a source network, read from a log file
+// or fetched from a JSON-RPC endpoint, decoded by the protocol plugins
+// (lib/log-ingest.ts) and written like generated events, validated, tagged
+// with the run and queued for the sink. Logs that are not protocol events
+// are passed over; events that cannot be mapped (unknown tokens, assets
+// without a reference price) are skipped and reported.
+
+const GENERATOR = 'log-ingest';
+
+type TaggedEvent = ProtocolEvent & RunTags;
+
+export const ingestCommand = defineCommand({
+  name: 'ingest',
+  summary: 'Decode real Aave V3 and Uniswap V3 logs and push them',
+  description:
+    'Decodes the Aave V3 and Uniswap V3 logs of a log file (--logs) or of a block range of a\n' +
+    'JSON-RPC endpoint (--rpc, e.g. a local anvil fork) into protocol events, and pushes them\n' +
+    'like generated ones. USD values use the prices of the scenario (--scenario).',
+  flags: {
+    logs: {
+      type: 'string',
+      value: 'path',
+      description: 'Log file: a JSON array of logs as eth_getLogs returns them',
+    },
+    rpc: { type: 'string', value: 'url', description: 'JSON-RPC endpoint to fetch logs from' },
+    'from-block': { type: 'integer', value: 'n', description: 'First block to fetch (--rpc)' },
+    'to-block': { type: 'integer', value: 'n', description: 'Last block to fetch (--rpc)' },
+    record: {
+      type: 'string',
+      value: 'path',
+      description: 'Also save the fetched logs to this log file (--rpc)',
+    },
+    network: {
+      type: 'string',
+      value: 'network',
+      description: 'Source network of the logs',
+      choices: NETWORK_IDS,
+      default: 'ethereum',
+    },
+    address: {
+      type: 'string',
+      value: 'addresses',
+      description:
+        'Only logs of these contracts, comma-separated (default: the Aave Pool and any Uniswap V3 pool)',
+    },
+    scenario: {
+      type: 'string',
+      value: 'name|path',
+      description: 'Scenario whose asset prices value the events',
+      default: 'default',
+    },
+    ...SINK_FLAGS,
+    encoding: {
+      type: 'string',
+      value: 'encoding',
+      description: 'Payload encoding',
+      choices: PAYLOAD_ENCODINGS,
+      default: 'json',
+    },
+    'batch-size': {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Entities per transaction',
+      default: 1,
+    },
+    concurrency: {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Transactions in flight',
+      default: 1,
+    },
+    'max-attempts': {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Attempts per batch before its entities go to the dead letters',
+      default: DEFAULT_RETRY_POLICY.maxAttempts,
+    },
+    'dead-letters': {
+      type: 'string',
+      value: 'path',
+      description: 'File failed entities are saved to',
+      default: DEFAULT_DEAD_LETTER_PATH,
+    },
+  },
+
+  async run({ flags }) {
+    if ((flags.logs === undefined) === (flags.rpc === undefined)) {
+      throw new UsageError('give either a log file (--logs) or an endpoint (--rpc)');
+    }
+    const fromBlock = flags['from-block'];
+    const toBlock = flags['to-block'];
+    if (flags.rpc !== undefined) {
+      if (fromBlock === undefined || toBlock === undefined) {
+        throw new UsageError('--rpc needs a block range (--from-block and --to-block)');
+      }
+      if (toBlock < fromBlock) {
+        throw new UsageError('--to-block must not be before --from-block');
+      }
+    } else if (fromBlock !== undefined || toBlock !== undefined || flags.record !== undefined) {
+      throw new UsageError('--from-block, --to-block and --record go with --rpc');
+    }
+    const addresses = flags.address?.split(',').map((address) => address.trim());
+    const invalid = addresses?.find((address) => !isAddress(address));
+    if (invalid !== undefined) {
+      throw new UsageError(`--address: ${invalid} is not an address`);
+    }
+    let scenario;
+    try {
+      scenario = await loadScenario(flags.scenario);
+    } catch (error) {
+      throw error instanceof ScenarioError ? new UsageError(error.message) : error;
+    }
+
+    let sink: EntitySink;
+
+    if (flags.sink === 'arkiv') {
+      console.log('📜 Arkiv Log Ingestion\n');
+
+      // The public client is used for nonce lookups, and for natural keys in idempotent mode
+      const walletClient = createArkivWalletClient();
+      sink = createArkivSink(walletClient, createArkivPublicClient(), {
+        ifExists: flags['if-exists'],
+      });
+
+      console.log(`✅ Connected to ${arkivNetworkName()}`);
+      console.log(`📍 Account: ${walletClient.account?.address}\n`);
+    } else if (flags['if-exists']) {
+      throw new UsageError('--if-exists only applies to the arkiv sink');
+    } else {
+      sink = createOfflineSink(flags.sink, flags.out);
+    }
+
+    // Keep stdout clean for the records when the stdout sink is in use
+    const log = sink.usesStdout ? console.error : console.log;
+
+    if (sink.name !== 'arkiv') {
+      log('📜 Arkiv Log Ingestion\n');
+      log(`📁 Writing to ${sink.name} (no network)\n`);
+    }
+
+    const network = SOURCE_NETWORKS[flags.network];
+    // Requests go to the endpoint as is, whatever chain it reports
+    const provider = flags.rpc
+      ? new JsonRpcProvider(flags.rpc, network.chainId, { staticNetwork: true })
+      : undefined;
+    const ingester = createLogIngester({ network, scenario, provider, addresses });
+
+    let logs: AsyncIterable<RawLog> | RawLog[];
+    if (provider) {
+      const chainId = Number(await provider.send('eth_chainId', []));
+      log(`🔌 Endpoint: ${flags.rpc} (chain id ${chainId})`);
+      if (chainId !== network.chainId) {
+        log(
+          `⚠️  ${network.name} has chain id ${network.chainId}; logs are stored as ${network.name}'s`
+        );
+      }
+      log(`🧱 Blocks: ${fromBlock} to ${toBlock}`);
+      logs = fetchLogs(provider, ingester.filter(fromBlock!, toBlock!));
+    } else {
+      logs = await readLogFile(flags.logs!);
+      log(`📄 Log file: ${flags.logs} (${logs.length} logs)`);
+    }
+    log(`🌐 Network: ${network.name}`);
+    log(`🎬 Scenario: ${scenario.name} (reference prices)`);
+
+    const config = {
+      logs: flags.logs,
+      rpc: flags.rpc,
+      fromBlock,
+      toBlock,
+      network: network.id,
+      addresses,
+      scenario: scenario.name,
+      encoding: flags.encoding,
+    };
+    const runId = createRunId();
+    const tags = runTags(GENERATOR, runId, config);
+    log(`🏷️  Run: ${runId} (config ${tags.configHash})\n`);
+
+    const stats = {
+      logs: 0,
+      skipped: 0,
+      byProtocol: Object.fromEntries(PROTOCOLS.map(({ id }) => [id, 0])),
+    };
+    const recorded: RawLog[] = [];
+
+    const queue = createWriteQueue<TaggedEvent>(sink, {
+      batchSize: flags['batch-size'],
+      concurrency: flags.concurrency,
+      retry: { ...DEFAULT_RETRY_POLICY, maxAttempts: flags['max-attempts'] },
+      onConfirmed(event, { entityKey, existing }) {
+        stats.byProtocol[event.protocol]++;
+        const { asset } = protocolPlugin(event.protocol).describe(event);
+        log(
+          `✅ ${event.protocol} ${event.eventType} | ${asset} | ${event.txHash.slice(0, 12)}…:${event.logIndex}` +
+            (entityKey ? ` | ${entityKey.slice(0, 20)}...` : '') +
+            (existing ? ` | already stored, ${existing === 'skip' ? 'skipped' : 'updated'}` : '')
+        );
+      },
+      onRetry(entities, attempt, delayMs, { reason }) {
+        console.error(
+          `⚠️  Retrying ${entities.length} entity(ies) in ${delayMs}ms (${reason}, attempt ${attempt} failed)`
+        );
+      },
+      async onFailed(failed, error) {
+        console.error(`❌ Error writing ${failed.length} entity(ies):`, error);
+        await appendDeadLetters(
+          flags['dead-letters'],
+          failed.map(({ entity }) => entity),
+          error
+        );
+        console.error(`   Saved to dead-letter file ${flags['dead-letters']}`);
+      },
+    });
+
+    // The logs fetched so far are recorded even when the run stops on an error
+    try {
+      for await (const rawLog of logs) {
+        stats.logs++;
+        if (flags.record) {
+          recorded.push(rawLog);
+        }
+
+        let event: TaggedEvent;
+        try {
+          const decoded = await ingester.ingest(rawLog);
+          if (!decoded) {
+            continue;
+          }
+          event = validateEntity<TaggedEvent>({ ...decoded, ...tags });
+        } catch (error) {
+          if (!(error instanceof UnmappedLogError || error instanceof EntityValidationError)) {
+            throw error;
+          }
+          stats.skipped++;
+          log(
+            `⏭️  Skipped log ${rawLog.transactionHash.slice(0, 12)}…:${Number(rawLog.logIndex)}: ${error.message}`
+          );
+          continue;
+        }
+
+        const { payload, contentType, attribute } = encodePayload(event, flags.encoding);
+        await queue.push(
+          {
+            payload,
+            contentType,
+            attributes: [...entityAttributes(event), attribute],
+            expiresIn: 10000, // Expire after 10000 blocks
+          },
+          event
+        );
+      }
+
+      await queue.drain();
+      await sink.close();
+    } finally {
+      if (flags.record) {
+        await writeLogFile(flags.record, recorded);
+        log(`\n💾 Recorded ${recorded.length} logs to ${flags.record}`);
+      }
+    }
+
+    const events = Object.values(stats.byProtocol).reduce((sum, count) => sum + count, 0);
+    log(`\n🎉 Ingestion complete! Pushed ${events} events to ${sink.name}\n`);
+    log('📊 Statistics:');
+    log(`   Logs read: ${stats.logs}`);
+    for (const { id, name, logs: decodes } of PROTOCOLS) {
+      if (decodes) {
+        log(`     - ${name} events: ${stats.byProtocol[id]}`);
+      }
+    }
+    log(`   Skipped: ${stats.skipped}`);
+    if (queue.stats.failed > 0) {
+      log(
+        `   Failed: ${queue.stats.failed} (see ${flags['dead-letters']}, re-submit with replay:dead-letters)`
+      );
+    }
+    log(`   Throughput: ${formatThroughput(queue.stats)}`);
+    // Skipped logs are events the run did not store, like failed writes
+    return queue.stats.failed > 0 || stats.skipped > 0 ? EXIT_CODES.partial : EXIT_CODES.ok;
+  },
+});
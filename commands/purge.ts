@@ -0,0 +1,118 @@
+import type { Hex } from '@arkiv-network/sdk';
+import { defineCommand, EXIT_CODES } from '../lib/cli';
+import { createArkivPublicClient, createArkivWalletClient } from '../lib/clients';
+import { queryOwnedEntityKeys } from '../lib/entity-query';
+import { DEFAULT_RETRY_POLICY, withRetry } from '../lib/retry';
+
+// Deletes every entity of one generator run (by its runId tag) owned by the
+// account in PRIVATE_KEY, in batches of one mutateEntities transaction each.
+// Always shows the counts by entityType first; --dry-run stops there.
+
+export const purgeCommand = defineCommand({
+  name: 'purge',
+  summary: 'Delete every entity of one generator run',
+  description:
+    'Deletes every entity of one generator run (by its runId tag) owned by the account in\n' +
+    'PRIVATE_KEY, one mutateEntities transaction per batch. Shows the counts by entity type\n' +
+    'first; --dry-run stops there.',
+  flags: {
+    run: {
+      type: 'string',
+      value: 'runId',
+      description: 'The run to delete (its id is logged by the generators)',
+      required: true,
+    },
+    'dry-run': { type: 'boolean', description: 'Only show what would be deleted' },
+    'batch-size': {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Entities deleted per transaction',
+      default: 100,
+    },
+    'max-attempts': {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Attempts per batch before giving up on it',
+      default: DEFAULT_RETRY_POLICY.maxAttempts,
+    },
+  },
+
+  async run({ flags }) {
+    const runId = flags.run;
+    const batchSize = flags['batch-size'];
+    const retry = { ...DEFAULT_RETRY_POLICY, maxAttempts: flags['max-attempts'] };
+
+    console.log('🧹 Arkiv Run Purge\n');
+
+    const publicClient = createArkivPublicClient();
+    const walletClient = createArkivWalletClient();
+    const owner = walletClient.account!.address;
+
+    console.log(`📍 Account: ${owner}`);
+    console.log(`🏷️  Run: ${runId}\n`);
+
+    // Collect every key before deleting, as deletions would shift the query pages
+    const keys: Hex[] = [];
+    const counts = new Map<string, number>();
+    for await (const { entityKey, attributes } of queryOwnedEntityKeys(
+      publicClient,
+      { runId },
+      owner
+    )) {
+      keys.push(entityKey);
+      const entityType = String(
+        attributes.find(({ key }) => key === 'entityType')?.value ?? '(none)'
+      );
+      counts.set(entityType, (counts.get(entityType) ?? 0) + 1);
+    }
+
+    if (keys.length === 0) {
+      console.log('✅ No entities of this run are owned by this account');
+      return;
+    }
+
+    console.log(`📦 ${keys.length} entities:`);
+    for (const [entityType, count] of [...counts].sort(([, a], [, b]) => b - a)) {
+      console.log(`   ${entityType.padEnd(20)} ${String(count).padStart(7)}`);
+    }
+
+    if (flags['dry-run']) {
+      console.log('\n🔍 Dry run: nothing deleted');
+      return;
+    }
+
+    console.log(`\n🗑️  Deleting in batches of ${batchSize}...`);
+    let deleted = 0;
+    let failed = 0;
+    for (let start = 0; start < keys.length; start += batchSize) {
+      const batch = keys.slice(start, start + batchSize);
+      try {
+        const { txHash } = await withRetry(
+          () => walletClient.mutateEntities({ deletes: batch.map((entityKey) => ({ entityKey })) }),
+          retry,
+          (attempt, retryMs, { reason }) =>
+            console.error(
+              `⚠️  Retrying batch in ${retryMs}ms (${reason}, attempt ${attempt} failed)`
+            )
+        );
+        deleted += batch.length;
+        console.log(`   ${deleted}/${keys.length} deleted (tx ${txHash.slice(0, 20)}...)`);
+      } catch (error) {
+        // Keep going: the entities left behind are picked up by running the purge again
+        failed += batch.length;
+        console.error(
+          `❌ Failed to delete ${batch.length} entities:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    console.log(`\n🎉 Purge complete! Deleted ${deleted} entities of run ${runId}`);
+    if (failed > 0) {
+      console.log(`   Failed: ${failed} (run the purge again to retry them)`);
+      return EXIT_CODES.partial;
+    }
+  },
+});
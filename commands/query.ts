@@ -0,0 +1,55 @@
+import { defineCommand } from '../lib/cli';
+import { arkivNetworkName, createArkivPublicClient } from '../lib/clients';
+import { FILTER_FLAGS, filtersFromFlags, queryEntities } from '../lib/entity-query';
+import { createEntityWriter, OUTPUT_FORMATS } from '../lib/output-format';
+
+// Reads generated entities back from Arkiv, filtered by their attributes, and
+// prints them as a table, JSON, NDJSON or CSV. Only reads, so no private key
+// is needed.
+
+export const queryCommand = defineCommand({
+  name: 'query',
+  summary: 'Read generated entities back from Arkiv',
+  description:
+    'Reads generated entities back from Arkiv, filtered by their attributes, and prints them\n' +
+    'as a table, JSON, NDJSON or CSV. Progress goes to stderr so the output can be piped.',
+  flags: {
+    ...FILTER_FLAGS,
+    format: {
+      type: 'string',
+      value: 'format',
+      description: 'Output format',
+      choices: OUTPUT_FORMATS,
+      default: 'table',
+    },
+    limit: { type: 'integer', value: 'n', min: 1, description: 'Stop after this many entities' },
+    'page-size': {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Entities fetched per request',
+      default: 100,
+    },
+  },
+
+  async run({ flags }) {
+    const filters = filtersFromFlags(flags);
+    const writer = createEntityWriter(flags.format);
+    const publicClient = createArkivPublicClient();
+
+    // Progress goes to stderr so the output can be piped
+    console.error(`🔍 Querying ${arkivNetworkName()}...`);
+
+    let count = 0;
+    for await (const entity of queryEntities(publicClient, filters, {
+      pageSize: flags['page-size'],
+      limit: flags.limit,
+    })) {
+      writer.write(entity);
+      count++;
+    }
+    writer.end();
+
+    console.error(`✅ Found ${count} entity(ies)`);
+  },
+});
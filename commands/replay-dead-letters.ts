@@ -0,0 +1,139 @@
+import { unlink } from 'node:fs/promises';
+import { defineCommand, EXIT_CODES, UsageError } from '../lib/cli';
+import { arkivNetworkName, createArkivPublicClient, createArkivWalletClient } from '../lib/clients';
+import {
+  deadLetterEntity,
+  DEFAULT_DEAD_LETTER_PATH,
+  readDeadLetters,
+  rewriteDeadLetters,
+  toDeadLetter,
+  type DeadLetter,
+} from '../lib/dead-letters';
+import { DEFAULT_RETRY_POLICY } from '../lib/retry';
+import { createArkivSink, createOfflineSink, SINK_FLAGS, type EntitySink } from '../lib/sinks';
+import { createWriteQueue, formatThroughput } from '../lib/write-queue';
+
+// Re-submits the entities of a dead-letter file written by the generators.
+// Entities that fail again stay in the file (with their new error); the file
+// is removed once everything has been written to Arkiv, and left as it is by
+// replays to an offline sink. With --if-exists, entities whose write landed
+// after all (e.g. a timeout once the transaction was sent) are found by their
+// natural key instead of being stored twice.
+
+export const replayDeadLettersCommand = defineCommand({
+  name: 'replay-dead-letters',
+  summary: 'Re-submit the entities of a dead-letter file',
+  description:
+    'Re-submits the entities of a dead-letter file written by the generators. Entities\n' +
+    'that fail again stay in the file (with their new error); the file is removed once\n' +
+    'everything has been written to Arkiv (offline sinks leave it as it is). With\n' +
+    '--if-exists, entities whose write landed after all are found by their natural key\n' +
+    'instead of being stored twice.',
+  args: [{ name: 'file', description: `Dead-letter file (default: ${DEFAULT_DEAD_LETTER_PATH})` }],
+  flags: {
+    ...SINK_FLAGS,
+    'batch-size': {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Entities per transaction',
+      default: 1,
+    },
+    concurrency: {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Transactions in flight',
+      default: 1,
+    },
+    'max-attempts': {
+      type: 'integer',
+      value: 'n',
+      min: 1,
+      description: 'Attempts per entity before it stays in the file',
+      default: DEFAULT_RETRY_POLICY.maxAttempts,
+    },
+  },
+
+  async run({ flags, args: [path = DEFAULT_DEAD_LETTER_PATH] }) {
+    const deadLetters = await readDeadLetters(path);
+
+    let sink: EntitySink;
+
+    if (flags.sink === 'arkiv') {
+      console.log('🔁 Arkiv Dead-Letter Replay\n');
+
+      // The public client is used for nonce lookups, and for natural keys in idempotent mode
+      const walletClient = createArkivWalletClient();
+      sink = createArkivSink(walletClient, createArkivPublicClient(), {
+        ifExists: flags['if-exists'],
+      });
+
+      console.log(`✅ Connected to ${arkivNetworkName()}`);
+      console.log(`📍 Account: ${walletClient.account?.address}\n`);
+    } else if (flags['if-exists']) {
+      throw new UsageError('--if-exists only applies to the arkiv sink');
+    } else {
+      sink = createOfflineSink(flags.sink, flags.out);
+    }
+
+    // Keep stdout clean for the records when the stdout sink is in use
+    const log = sink.usesStdout ? console.error : console.log;
+
+    if (sink.name !== 'arkiv') {
+      log('🔁 Arkiv Dead-Letter Replay\n');
+      log(`📁 Writing to ${sink.name} (no network)\n`);
+    }
+    log(`📄 ${deadLetters.length} dead letter(s) in ${path}\n`);
+
+    const stillFailing: DeadLetter[] = [];
+
+    const queue = createWriteQueue<DeadLetter>(sink, {
+      batchSize: flags['batch-size'],
+      concurrency: flags.concurrency,
+      retry: { ...DEFAULT_RETRY_POLICY, maxAttempts: flags['max-attempts'] },
+      onConfirmed(deadLetter, { entityKey, existing }) {
+        log(
+          `✅ Replayed entity from ${deadLetter.failedAt} (${deadLetter.reason})` +
+            (entityKey ? ` | ${entityKey.slice(0, 20)}...` : '') +
+            (existing ? ` | already stored, ${existing === 'skip' ? 'skipped' : 'updated'}` : '')
+        );
+      },
+      onRetry(entries, attempt, delayMs, { reason }) {
+        console.error(
+          `⚠️  Retrying ${entries.length} entity(ies) in ${delayMs}ms (${reason}, attempt ${attempt} failed)`
+        );
+      },
+      onFailed(failed, error) {
+        console.error(`❌ Error writing ${failed.length} entity(ies):`, error);
+        stillFailing.push(...failed.map(({ entity }) => toDeadLetter(entity, error)));
+      },
+    });
+
+    for (const deadLetter of deadLetters) {
+      await queue.push(deadLetterEntity(deadLetter), deadLetter);
+    }
+    await queue.drain();
+    await sink.close();
+
+    // Only entities stored in Arkiv leave the file: the offline sinks are for
+    // looking at the letters, which stay until they are replayed to Arkiv
+    const stored = sink.name === 'arkiv';
+    if (stored && stillFailing.length > 0) {
+      await rewriteDeadLetters(path, stillFailing);
+    } else if (stored && deadLetters.length > 0) {
+      await unlink(path);
+    }
+
+    log(`\n🎉 Replay complete! ${formatThroughput(queue.stats)}`);
+    if (stillFailing.length > 0) {
+      log(`   ${stillFailing.length} entity(ies) still failing, kept in ${path}`);
+      return EXIT_CODES.partial;
+    }
+    if (!stored) {
+      log(`   All dead letters written to ${sink.name}, kept in ${path}`);
+      return;
+    }
+    log(`   All dead letters written, removed ${path}`);
+  },
+});
@@ -0,0 +1,70 @@
+import { writeFile } from 'node:fs/promises';
+import { defineCommand } from '../lib/cli';
+import { arkivNetworkName, createArkivPublicClient } from '../lib/clients';
+import { entityAttributes } from '../lib/attributes';
+import { FILTER_FLAGS, filtersFromFlags, matchesFilters, queryEntities } from '../lib/entity-query';
+import { computeStats, isProtocolEvent, readEntityExport, STATS_BUCKETS } from '../lib/stats';
+import type { ProtocolEvent } from '../lib/types';
+
+// Computes the dashboard stats (volume over time, event types, assets, top
+// users, liquidations) from protocol events, read from Arkiv or from a file
+// export, and prints them as JSON.
+
+export const statsCommand = defineCommand({
+  name: 'stats',
+  summary: 'Compute dashboard stats from Arkiv or a file export',
+  description:
+    'Computes the dashboard stats (volume over time, event types, assets, top users,\n' +
+    'liquidations) from the protocol events of a file export, or of Arkiv when no file\n' +
+    'is given, and prints them as JSON.',
+  args: [{ name: 'file', description: 'NDJSON or JSON export (file sink or query output)' }],
+  flags: {
+    ...FILTER_FLAGS,
+    bucket: {
+      type: 'string',
+      value: 'size',
+      description: 'Time bucket of the volume chart',
+      choices: STATS_BUCKETS,
+      default: '1h',
+    },
+    top: { type: 'integer', value: 'n', description: 'Number of top users', default: 10 },
+    out: { type: 'string', value: 'path', description: 'Write the JSON here instead of stdout' },
+  },
+
+  async run({ flags, args: [path] }) {
+    let events: ProtocolEvent[] = [];
+    const filters = { ...filtersFromFlags(flags), entityType: 'protocol_event' };
+
+    if (path) {
+      console.error(`📂 Reading ${path}...`);
+      // The filters a query would apply on Arkiv, applied to the file's entities
+      const entities = await readEntityExport(path);
+      events = entities
+        .filter((entity) => matchesFilters(entityAttributes(entity), filters))
+        .filter(isProtocolEvent);
+      console.error(
+        `   ${events.length} protocol events (${entities.length - events.length} other entities skipped)`
+      );
+    } else {
+      const publicClient = createArkivPublicClient();
+
+      console.error(`🔍 Querying ${arkivNetworkName()}...`);
+      for await (const { data } of queryEntities(publicClient, filters)) {
+        if (isProtocolEvent(data)) {
+          events.push(data);
+        }
+      }
+      console.error(`   ${events.length} protocol events`);
+    }
+
+    const stats = computeStats(events, { bucket: flags.bucket, topUsers: flags.top });
+    const json = JSON.stringify(stats, null, 2) + '\n';
+
+    if (flags.out) {
+      await writeFile(flags.out, json, 'utf8');
+      console.error(`✅ Stats written to ${flags.out}`);
+    } else {
+      process.stdout.write(json);
+    }
+  },
+});
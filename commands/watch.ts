@@ -0,0 +1,70 @@
+import { defineCommand } from '../lib/cli';
+import { arkivNetworkName, arkivSocketUrl, createArkivSocketClient } from '../lib/clients';
+import { FILTER_FLAGS, filtersFromFlags } from '../lib/entity-query';
+import { watchEntities, type EntityChange, type EntityChangeEvent } from '../lib/entity-watch';
+import { describeEntity } from '../lib/output-format';
+
+// Prints a live feed of the entities created, updated, deleted or expired on
+// Arkiv that match the given filters, over the WebSocket endpoint (WS_URL).
+// Reconnects on its own and catches up on the changes it missed meanwhile.
+
+const CHANGE_ICONS: Record<EntityChange, string> = {
+  created: '🆕',
+  updated: '✏️ ',
+  deleted: '🗑️ ',
+  expired: '⌛',
+};
+
+export const watchCommand = defineCommand({
+  name: 'watch',
+  summary: 'Follow matching entity changes live',
+  description:
+    'Prints a live feed of the entities created, updated, deleted or expired on Arkiv that\n' +
+    'match the filters, over the WebSocket endpoint (WS_URL). Reconnects on its own and\n' +
+    'catches up on the changes it missed meanwhile. Stops on Ctrl+C.',
+  flags: {
+    ...FILTER_FLAGS,
+    format: {
+      type: 'string',
+      value: 'format',
+      description: 'Output format',
+      choices: ['text', 'ndjson'],
+      default: 'text',
+    },
+  },
+
+  async run({ flags }) {
+    const ndjson = flags.format === 'ndjson';
+    const filters = filtersFromFlags(flags);
+
+    function print({ change, entityKey, entity, replayed }: EntityChangeEvent) {
+      if (ndjson) {
+        console.log(JSON.stringify({ change, entityKey, replayed, ...entity?.data }));
+        return;
+      }
+      const description = entity ? describeEntity(entity) : entityKey;
+      console.log(
+        `${CHANGE_ICONS[change]} ${change.padEnd(7)} ${description}${replayed ? '  (missed)' : ''}`
+      );
+    }
+
+    // Checked once here: a missing endpoint is a config error, not a lost connection
+    const url = arkivSocketUrl();
+
+    // Progress goes to stderr so the feed can be piped
+    console.error(`👀 Watching ${arkivNetworkName()} (Ctrl+C to stop)...`);
+
+    // A fresh socket per connection; the watcher handles reconnecting itself
+    const watcher = watchEntities(() => createArkivSocketClient(url), filters, {
+      onChange: print,
+      onStatus: (message) => console.error(`🔌 ${message}`),
+    });
+
+    await Promise.race([
+      new Promise<void>((resolve) => process.once('SIGINT', resolve)),
+      watcher.failed,
+    ]);
+    console.error('\n👋 Stopping...');
+    await watcher.stop();
+  },
+});
@@ -0,0 +1,205 @@
+// ============================================================================
+// AAVE V3 POSITION LEDGER
+// ============================================================================
+//
+// Tracks every user's supplied collateral and debt per reserve (in token
+// units) so the generated Aave events stay economically consistent: users only
+// withdraw what they supplied without breaking their health factor, only repay
+// debt they have, and are only liquidated once their health factor drops
+// below 1. Prices come from the caller, usually the price simulator at the
+// event's timestamp.
+
+// Liquidations may repay 50% of a debt, or all of it once the health factor
+// is below 0.95 (Aave V3's CLOSE_FACTOR_HF_THRESHOLD)
+const DEFAULT_CLOSE_FACTOR = 0.5;
+const MAX_CLOSE_FACTOR = 1;
+const CLOSE_FACTOR_HF_THRESHOLD = 0.95;
+
+// Balances below this are rounding leftovers and are dropped
+const DUST = 1e-9;
+
+export interface ReserveConfig {
+  // Share of the collateral value that can be borrowed against
+  ltv: number;
+  // Share of the collateral value at which the position becomes liquidatable
+  liquidationThreshold: number;
+  // Collateral a liquidator receives per unit of debt repaid (1.05 = 5% bonus)
+  liquidationBonus: number;
+}
+
+export interface AavePosition {
+  supplied: Record<string, number>;
+  debt: Record<string, number>;
+}
+
+// Positions by user address, saved in checkpoints
+export type AaveLedgerState = Record<string, AavePosition>;
+
+export type PriceOf = (asset: string) => number;
+
+export interface Liquidation {
+  debtToCover: number;
+  liquidatedCollateralAmount: number;
+}
+
+export interface AaveLedger {
+  position(user: string): AavePosition;
+  // Users with any collateral, and users with any debt
+  suppliers(): string[];
+  borrowers(): string[];
+  supply(user: string, asset: string, amount: number): void;
+  withdraw(user: string, asset: string, amount: number): void;
+  borrow(user: string, asset: string, amount: number): void;
+  repay(user: string, asset: string, amount: number): void;
+  // Collateral value weighted by liquidation threshold over debt value; Infinity without debt
+  healthFactor(user: string, priceOf: PriceOf): number;
+  // USD value the user can still borrow under the LTV of their collateral
+  availableBorrowsUSD(user: string, priceOf: PriceOf): number;
+  // Largest amount of `asset` the user can withdraw without dropping below health factor 1
+  maxWithdraw(user: string, asset: string, priceOf: PriceOf): number;
+  // Largest liquidation of `debtAsset` against `collateralAsset`, applied to the ledger
+  liquidate(
+    user: string,
+    debtAsset: string,
+    collateralAsset: string,
+    priceOf: PriceOf
+  ): Liquidation;
+  getState(): AaveLedgerState;
+}
+
+function sumUSD(
+  balances: Record<string, number>,
+  priceOf: PriceOf,
+  weight: (asset: string) => number = () => 1
+): number {
+  return Object.entries(balances).reduce(
+    (sum, [asset, amount]) => sum + amount * priceOf(asset) * weight(asset),
+    0
+  );
+}
+
+/**
+ * Keep Aave positions for the given reserves, starting empty or from a saved state.
+ */
+export function createAaveLedger(
+  reserves: Record<string, ReserveConfig>,
+  state: AaveLedgerState = {}
+): AaveLedger {
+  const positions: AaveLedgerState = structuredClone(state);
+
+  function reserveOf(asset: string): ReserveConfig {
+    const reserve = reserves[asset];
+    if (!reserve) {
+      throw new Error(`No Aave reserve configured for asset ${asset}`);
+    }
+    return reserve;
+  }
+
+  function position(user: string): AavePosition {
+    positions[user] ??= { supplied: {}, debt: {} };
+    return positions[user];
+  }
+
+  function add(balances: Record<string, number>, asset: string, amount: number): void {
+    reserveOf(asset);
+    balances[asset] = (balances[asset] ?? 0) + amount;
+  }
+
+  function subtract(
+    balances: Record<string, number>,
+    asset: string,
+    amount: number,
+    what: string
+  ): void {
+    const balance = balances[asset] ?? 0;
+    if (amount > balance + DUST) {
+      throw new Error(`Cannot take ${amount} ${asset} from ${what} of ${balance}`);
+    }
+    if (balance - amount < DUST) {
+      delete balances[asset];
+    } else {
+      balances[asset] = balance - amount;
+    }
+  }
+
+  function collateralUSD(user: string, priceOf: PriceOf, weight: keyof ReserveConfig): number {
+    return sumUSD(position(user).supplied, priceOf, (asset) => reserveOf(asset)[weight]);
+  }
+
+  function healthFactor(user: string, priceOf: PriceOf): number {
+    const debtUSD = sumUSD(position(user).debt, priceOf);
+    if (debtUSD === 0) {
+      return Infinity;
+    }
+    return collateralUSD(user, priceOf, 'liquidationThreshold') / debtUSD;
+  }
+
+  return {
+    position,
+    suppliers() {
+      return Object.keys(positions).filter(
+        (user) => Object.keys(positions[user].supplied).length > 0
+      );
+    },
+    borrowers() {
+      return Object.keys(positions).filter((user) => Object.keys(positions[user].debt).length > 0);
+    },
+    supply(user, asset, amount) {
+      add(position(user).supplied, asset, amount);
+    },
+    withdraw(user, asset, amount) {
+      subtract(position(user).supplied, asset, amount, 'supplied balance');
+    },
+    borrow(user, asset, amount) {
+      add(position(user).debt, asset, amount);
+    },
+    repay(user, asset, amount) {
+      subtract(position(user).debt, asset, amount, 'debt');
+    },
+    healthFactor,
+    availableBorrowsUSD(user, priceOf) {
+      const capacity = collateralUSD(user, priceOf, 'ltv');
+      return Math.max(0, capacity - sumUSD(position(user).debt, priceOf));
+    },
+    maxWithdraw(user, asset, priceOf) {
+      const supplied = position(user).supplied[asset] ?? 0;
+      const debtUSD = sumUSD(position(user).debt, priceOf);
+      if (debtUSD === 0) {
+        return supplied;
+      }
+      // Collateral value (at liquidation threshold) above what keeps the health factor at 1
+      const excessUSD = collateralUSD(user, priceOf, 'liquidationThreshold') - debtUSD;
+      if (excessUSD <= 0) {
+        return 0;
+      }
+      return Math.min(supplied, excessUSD / reserveOf(asset).liquidationThreshold / priceOf(asset));
+    },
+    liquidate(user, debtAsset, collateralAsset, priceOf) {
+      const { supplied, debt } = position(user);
+      const closeFactor =
+        healthFactor(user, priceOf) < CLOSE_FACTOR_HF_THRESHOLD
+          ? MAX_CLOSE_FACTOR
+          : DEFAULT_CLOSE_FACTOR;
+      const bonus = reserveOf(collateralAsset).liquidationBonus;
+      const debtPrice = priceOf(debtAsset);
+      const collateralPrice = priceOf(collateralAsset);
+
+      let debtToCover = (debt[debtAsset] ?? 0) * closeFactor;
+      let liquidatedCollateralAmount = (debtToCover * debtPrice * bonus) / collateralPrice;
+
+      // Not enough of this collateral: seize all of it and cover proportionally less debt
+      const available = supplied[collateralAsset] ?? 0;
+      if (liquidatedCollateralAmount > available) {
+        liquidatedCollateralAmount = available;
+        debtToCover = (available * collateralPrice) / (debtPrice * bonus);
+      }
+
+      subtract(debt, debtAsset, debtToCover, 'debt');
+      subtract(supplied, collateralAsset, liquidatedCollateralAmount, 'supplied balance');
+      return { debtToCover, liquidatedCollateralAmount };
+    },
+    getState() {
+      return structuredClone(positions);
+    },
+  };
+}
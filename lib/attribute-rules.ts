@@ -0,0 +1,39 @@
+// ============================================================================
+// ATTRIBUTE RULES
+// ============================================================================
+//
+// The rules lib/attributes.ts indexes entity fields by, shared with the
+// protocol plugins (lib/protocols/) that declare the rules of their events.
+
+export type AttributeRule =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  // Decimal string stored as an integer number of 10^-decimals units
+  | { kind: 'fixed'; decimals: number }
+  // Object flattened into `<prefix>.<key>` attributes, each following `rule`
+  | { kind: 'map'; prefix: string; rule: AttributeRule };
+
+export type AttributeRules = Record<string, AttributeRule>;
+
+export const STRING: AttributeRule = { kind: 'string' };
+export const NUMBER: AttributeRule = { kind: 'number' };
+export const USD_DECIMALS = 2;
+export const AMOUNT_DECIMALS = 6;
+export const USD: AttributeRule = { kind: 'fixed', decimals: USD_DECIMALS };
+export const AMOUNT: AttributeRule = { kind: 'fixed', decimals: AMOUNT_DECIMALS };
+
+// Indexed by every entity that has them
+export const COMMON_RULES: AttributeRules = {
+  entityType: STRING,
+  protocol: STRING,
+  network: STRING,
+  eventType: STRING,
+  txHash: STRING,
+  logIndex: NUMBER,
+  blockNumber: NUMBER,
+  timestamp: STRING,
+  seed: STRING,
+  runId: STRING,
+  generatorVersion: STRING,
+  configHash: STRING,
+};
@@ -0,0 +1,117 @@
+import type { Attribute } from '@arkiv-network/sdk';
+import {
+  AMOUNT,
+  COMMON_RULES,
+  NUMBER,
+  STRING,
+  USD,
+  type AttributeRule,
+  type AttributeRules,
+} from './attribute-rules';
+import { PROTOCOLS } from './protocols';
+import type { GeneratedEntity, ProtocolType } from './types';
+
+// ============================================================================
+// ENTITY ATTRIBUTES
+// ============================================================================
+//
+// Maps an entity to the Arkiv attributes it is indexed by. Every entity kind
+// has a rule per field: identifiers become string attributes, counts and
+// block numbers numeric ones, and decimal amounts numeric ones in fixed-point
+// integer units (USD values in cents, token amounts and prices in millionths),
+// so all of them can be range-queried. Map fields are flattened into one
+// attribute per key (assetVolumes.USDC -> assetVolume.USDC). Fields without
+// a rule stay in the payload only.
+//
+// Arkiv numeric attributes are unsigned integers, so signed values (ticks,
+// 24h changes) stay payload-only, as do raw on-chain integers too large for a
+// JavaScript number (liquidity, sqrtPriceX96). Decimal amounts whose units
+// are too large for one, which real logs can have, go under a separate
+// `<key>Raw` string attribute instead, so the numeric key always holds numbers.
+
+export type EntityKind = ProtocolType | 'aggregated_metric' | 'price_snapshot';
+
+// Protocol events follow the rules of their protocol plugin
+export const ATTRIBUTE_RULES: Record<EntityKind, AttributeRules> = {
+  ...(Object.fromEntries(PROTOCOLS.map(({ id, attributes }) => [id, attributes])) as Record<
+    ProtocolType,
+    AttributeRules
+  >),
+  aggregated_metric: {
+    ...COMMON_RULES,
+    metricType: STRING,
+    timeWindow: STRING,
+    totalVolumeUSD: USD,
+    transactionCount: NUMBER,
+    uniqueUsers: NUMBER,
+    assetVolumes: { kind: 'map', prefix: 'assetVolume', rule: USD },
+    eventTypeCounts: { kind: 'map', prefix: 'eventTypeCount', rule: NUMBER },
+    avgTransactionSizeUSD: USD,
+  },
+  price_snapshot: {
+    ...COMMON_RULES,
+    snapshotType: STRING,
+    asset: STRING,
+    priceUSD: AMOUNT,
+    volume24hUSD: USD,
+    marketCapUSD: USD,
+  },
+};
+
+export function entityKind(entity: GeneratedEntity): EntityKind {
+  return entity.entityType === 'protocol_event' ? entity.protocol : entity.entityType;
+}
+
+/**
+ * Convert a non-negative decimal string to integer units of 10^-decimals,
+ * e.g. toFixedPoint('12.345', 2) === 1234. Extra digits are truncated;
+ * undefined when the units are too large for a JavaScript number.
+ */
+export function toFixedPoint(value: string, decimals: number): number | undefined {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) {
+    throw new Error(`Cannot store ${value} as a fixed-point attribute`);
+  }
+  const fraction = (match[2] ?? '').slice(0, decimals).padEnd(decimals, '0');
+  const units = Number(match[1] + fraction);
+  return Number.isSafeInteger(units) ? units : undefined;
+}
+
+/** Inverse of toFixedPoint, as a decimal string. */
+export function fromFixedPoint(units: number, decimals: number): string {
+  return (units / 10 ** decimals).toFixed(decimals);
+}
+
+function toAttributes(key: string, value: unknown, rule: AttributeRule): Attribute[] {
+  switch (rule.kind) {
+    case 'string':
+      return [{ key, value: String(value) }];
+    case 'number':
+      if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+        throw new Error(`${key}: ${value} is not a non-negative integer`);
+      }
+      return [{ key, value }];
+    case 'fixed': {
+      const units = toFixedPoint(String(value), rule.decimals);
+      // Too large for a numeric attribute: the decimal string, under its own
+      // key, which queries can match exactly but not compare
+      return units === undefined
+        ? [{ key: `${key}Raw`, value: String(value) }]
+        : [{ key, value: units }];
+    }
+    case 'map':
+      return Object.entries(value as Record<string, unknown>).flatMap(([subKey, subValue]) =>
+        toAttributes(`${rule.prefix}.${subKey}`, subValue, rule.rule)
+      );
+  }
+}
+
+/**
+ * Attributes to index `entity` by, following the rules of its kind.
+ */
+export function entityAttributes(entity: GeneratedEntity): Attribute[] {
+  const rules = ATTRIBUTE_RULES[entityKind(entity)];
+  return Object.entries(entity)
+    .filter(([key, value]) => rules[key] !== undefined && value !== undefined)
+    .flatMap(([key, value]) => toAttributes(key, value, rules[key]));
+}
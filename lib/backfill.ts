@@ -0,0 +1,136 @@
+import { UsageError } from './cli';
+import {
+  networkBlockAt,
+  networkTimeOfBlock,
+  SOURCE_NETWORKS,
+  type SourceNetwork,
+} from './networks';
+import { random } from './random';
+
+// ============================================================================
+// BACKFILL CLOCK
+// ============================================================================
+//
+// Spreads a fixed number of entities over a past time range, following the
+// intraday rhythm of on-chain activity (busiest while US and European hours
+// overlap, quietest in the early UTC morning, a little slower on weekends).
+// Block numbers are derived from the timestamps with Ethereum's 12-second
+// post-merge slots, so both line up with the real chain. Ethereum blocks are
+// the clock of every run; events of other networks get the blocks of those
+// networks at the same time (lib/networks.ts).
+
+const ETHEREUM = SOURCE_NETWORKS.ethereum;
+
+export const BLOCK_TIME_MS = ETHEREUM.blockTimeMs;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Relative activity per UTC hour of the day (1 = average)
+const HOURLY_ACTIVITY = [
+  0.75, 0.7, 0.65, 0.6, 0.6, 0.65, 0.75, 0.85, 0.95, 1.0, 1.05, 1.1, 1.15, 1.25, 1.35, 1.4, 1.4,
+  1.35, 1.25, 1.15, 1.05, 0.95, 0.85, 0.8,
+];
+const WEEKEND_ACTIVITY = 0.8;
+
+/** Block number of the slot containing `time` (ms since epoch). */
+export function blockAt(time: number): number {
+  return networkBlockAt(ETHEREUM, time);
+}
+
+/** Timestamp (ms since epoch) of `block`. */
+export function timeOfBlock(block: number): number {
+  return networkTimeOfBlock(ETHEREUM, block);
+}
+
+function activityAt(time: number): number {
+  const date = new Date(time);
+  const weekday = date.getUTCDay();
+  const weekend = weekday === 0 || weekday === 6;
+  return HOURLY_ACTIVITY[date.getUTCHours()] * (weekend ? WEEKEND_ACTIVITY : 1);
+}
+
+export interface BackfillRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Parse the --from/--to options (any format Date.parse accepts). The range
+ * must start where the block times of all `networks` are known; a range that
+ * does not is a UsageError, like any other invalid flag value.
+ */
+export function parseBackfillRange(
+  from: string,
+  to: string,
+  networks: SourceNetwork[] = [ETHEREUM]
+): BackfillRange {
+  const range = { from: Date.parse(from), to: Date.parse(to) };
+  if (Number.isNaN(range.from) || Number.isNaN(range.to)) {
+    throw new UsageError(`Invalid backfill range ${from} .. ${to}: expected ISO dates`);
+  }
+  if (range.from >= range.to) {
+    throw new UsageError(`Invalid backfill range ${from} .. ${to}: --from must be before --to`);
+  }
+  for (const { name, anchor } of networks) {
+    if (range.from < anchor.time) {
+      throw new UsageError(
+        `Invalid backfill range ${from} .. ${to}: ${name} block times are only fixed after ${anchor.label} (${new Date(anchor.time).toISOString()})`
+      );
+    }
+  }
+  return range;
+}
+
+export interface BackfillClock {
+  // Block of the entity at `index`, non-decreasing in `index`
+  blockOf(index: number): number;
+}
+
+/**
+ * Place `count` entities over `range`. Each entity gets an equal share of the
+ * range's total activity, so busy hours hold more entities than quiet ones.
+ */
+export function createBackfillClock(range: BackfillRange, count: number): BackfillClock {
+  // Cumulative activity at the hour boundaries inside the range
+  const bounds = [range.from];
+  for (let time = range.from - (range.from % HOUR_MS) + HOUR_MS; time < range.to; time += HOUR_MS) {
+    bounds.push(time);
+  }
+  bounds.push(range.to);
+
+  const cumulative = [0];
+  for (let i = 1; i < bounds.length; i++) {
+    const activity = activityAt(bounds[i - 1]) * (bounds[i] - bounds[i - 1]);
+    cumulative.push(cumulative[i - 1] + activity);
+  }
+  const total = cumulative[cumulative.length - 1];
+
+  // Blocks whose timestamps fall inside the range
+  const firstBlock = blockAt(range.from - 1) + 1;
+  const lastBlock = blockAt(range.to - 1);
+  if (firstBlock > lastBlock) {
+    throw new UsageError('Backfill range holds no block');
+  }
+
+  return {
+    blockOf(index) {
+      // A random point in the entity's share of the activity
+      const target = ((index + random()) / count) * total;
+
+      let low = 0;
+      let high = bounds.length - 1;
+      while (high - low > 1) {
+        const mid = (low + high) >> 1;
+        if (cumulative[mid] <= target) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+
+      const share = (target - cumulative[low]) / (cumulative[high] - cumulative[low]);
+      const time = bounds[low] + share * (bounds[high] - bounds[low]);
+      return Math.min(lastBlock, Math.max(firstBlock, blockAt(time)));
+    },
+  };
+}
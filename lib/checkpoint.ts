@@ -0,0 +1,170 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { SinkReceipt } from './sinks';
+
+// ============================================================================
+// RUN CHECKPOINTS
+// ============================================================================
+//
+// A checkpoint file records a generator run as it progresses: its config, the
+// entityKey/txHash of every confirmed entity and the generator state right
+// before the first entity that is not yet settled. Resuming restores that
+// state and regenerates from there, skipping entities that were already
+// confirmed (or dead-lettered) while later batches were still in flight.
+
+// Bumped when the config or generator state saved in checkpoints changes shape:
+// checkpoints of another version are refused rather than resumed wrongly
+export const CHECKPOINT_VERSION = 2;
+
+export interface ConfirmedEntity extends SinkReceipt {
+  index: number;
+}
+
+export interface Checkpoint<C, S> {
+  version: typeof CHECKPOINT_VERSION;
+  createdAt: string;
+  updatedAt: string;
+  completed: boolean;
+  config: C;
+  // Every entity before this index is settled; `state` is the generator state before it
+  resumeIndex: number;
+  state: S;
+  confirmed: ConfirmedEntity[];
+  // Entities that failed for good and went to the dead-letter file
+  deadLettered: number[];
+}
+
+export async function loadCheckpoint<C, S>(path: string): Promise<Checkpoint<C, S>> {
+  const checkpoint = JSON.parse(await readFile(path, 'utf8')) as Checkpoint<C, S>;
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    throw new Error(
+      `${path}: checkpoint version ${checkpoint.version} is not supported (expected ${CHECKPOINT_VERSION}); ` +
+        'it was written by another version of the generator, start a new run instead'
+    );
+  }
+  return checkpoint;
+}
+
+export interface CheckpointTracker<S> {
+  readonly resumeIndex: number;
+  // True when the entity at `index` was written in an earlier session
+  isSettled(index: number): boolean;
+  // Record the generator state before the entity at `index` is generated. Call
+  // it before the previous entity is queued, so the state is known by the time
+  // that entity can be confirmed.
+  snapshot(index: number, state: S): void;
+  confirm(index: number, receipt: SinkReceipt): void;
+  deadLetter(index: number): void;
+  // Write the checkpoint and wait for it; `completed` marks the run as finished
+  flush(completed?: boolean): Promise<void>;
+}
+
+/**
+ * Track a run in the checkpoint file at `path`, starting fresh or from a
+ * checkpoint loaded with loadCheckpoint().
+ */
+export function createCheckpointTracker<C, S>(
+  path: string,
+  start: { config: C; state: S } | Checkpoint<C, S>
+): CheckpointTracker<S> {
+  const now = new Date().toISOString();
+  const checkpoint: Checkpoint<C, S> =
+    'version' in start
+      ? start
+      : {
+          version: CHECKPOINT_VERSION,
+          createdAt: now,
+          updatedAt: now,
+          completed: false,
+          config: start.config,
+          resumeIndex: 0,
+          state: start.state,
+          confirmed: [],
+          deadLettered: [],
+        };
+
+  const settled = new Set<number>([
+    ...checkpoint.confirmed.map(({ index }) => index),
+    ...checkpoint.deadLettered,
+  ]);
+  const snapshots = new Map<number, S>();
+
+  // Saves are serialized; requests made while one is running coalesce into one more save
+  let saving: Promise<void> | undefined;
+  let dirty = false;
+  let saveError: unknown;
+
+  async function save(): Promise<void> {
+    checkpoint.updatedAt = new Date().toISOString();
+    const tmpPath = `${path}.tmp`;
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(checkpoint, null, 2), 'utf8');
+    await rename(tmpPath, path);
+  }
+
+  function scheduleSave(): Promise<void> {
+    if (saving) {
+      dirty = true;
+      return saving;
+    }
+    saving = save()
+      .catch((error) => {
+        saveError = error;
+      })
+      .finally(() => {
+        saving = undefined;
+        if (dirty) {
+          dirty = false;
+          void scheduleSave();
+        }
+      });
+    return saving;
+  }
+
+  function settle(index: number): void {
+    settled.add(index);
+    while (settled.has(checkpoint.resumeIndex)) {
+      snapshots.delete(checkpoint.resumeIndex);
+      checkpoint.resumeIndex++;
+    }
+    const state = snapshots.get(checkpoint.resumeIndex);
+    if (state !== undefined) {
+      checkpoint.state = state;
+    }
+    void scheduleSave();
+  }
+
+  return {
+    get resumeIndex() {
+      return checkpoint.resumeIndex;
+    },
+    isSettled(index) {
+      return settled.has(index);
+    },
+    snapshot(index, state) {
+      if (index === checkpoint.resumeIndex) {
+        checkpoint.state = state;
+      } else if (index > checkpoint.resumeIndex) {
+        snapshots.set(index, state);
+      }
+    },
+    confirm(index, receipt) {
+      checkpoint.confirmed.push({ index, ...receipt });
+      settle(index);
+    },
+    deadLetter(index) {
+      checkpoint.deadLettered.push(index);
+      settle(index);
+    },
+    async flush(completed = false) {
+      checkpoint.completed = completed;
+      while (saving) {
+        await saving;
+      }
+      await scheduleSave();
+      if (saveError) {
+        throw saveError;
+      }
+    },
+  };
+}
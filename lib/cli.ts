@@ -0,0 +1,299 @@
+import { parseArgs } from 'node:util';
+
+// ============================================================================
+// COMMAND LINE
+// ============================================================================
+//
+// The subcommands of cli.ts declare their flags and arguments once; from that
+// declaration the flags are parsed, validated before the command runs, and
+// listed in --help. Failures map to exit codes scripts can tell apart.
+
+export const EXIT_CODES = {
+  ok: 0,
+  // Unexpected error, or the command could not do its job
+  failed: 1,
+  // Unknown command or flag, or an invalid flag value
+  usage: 2,
+  // Missing or invalid environment (e.g. no PRIVATE_KEY)
+  config: 3,
+  // Finished, but some entities could not be generated, written (see the dead letters) or deleted
+  partial: 4,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface FlagSpec {
+  // Integers are checked to be whole numbers of at least `min` (default 0)
+  type: 'string' | 'boolean' | 'integer';
+  description: string;
+  // Name of the value in --help, e.g. 'path' for `--out <path>`
+  value?: string;
+  default?: string | number | boolean;
+  // The accepted values of a string flag
+  choices?: readonly string[];
+  min?: number;
+  // Give a UsageError when the flag is missing
+  required?: boolean;
+}
+
+export type FlagSpecs = Record<string, FlagSpec>;
+
+type FlagValue<S extends FlagSpec> = S extends { type: 'boolean' }
+  ? boolean
+  : S extends { type: 'integer' }
+    ? number
+    : S extends { choices: readonly (infer C)[] }
+      ? C
+      : string;
+
+// Parsed flags: booleans and flags that are required or have a default always have a value
+export type FlagValues<F extends FlagSpecs> = {
+  [K in keyof F]: F[K] extends { default: unknown } | { required: true } | { type: 'boolean' }
+    ? FlagValue<F[K]>
+    : FlagValue<F[K]> | undefined;
+};
+
+export interface ArgumentSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface CommandInput<F extends FlagSpecs> {
+  flags: FlagValues<F>;
+  args: string[];
+}
+
+export interface Command<F extends FlagSpecs = FlagSpecs> {
+  name: string;
+  summary: string;
+  // Longer explanation for --help
+  description?: string;
+  args?: ArgumentSpec[];
+  flags: F;
+  // Resolves to the exit code (EXIT_CODES.ok when nothing is returned)
+  run(input: CommandInput<F>): Promise<ExitCode | void>;
+}
+
+/**
+ * Declare a command; only there to infer the types of its flags.
+ */
+export function defineCommand<const F extends FlagSpecs>(command: Command<F>): Command<F> {
+  return command;
+}
+
+const HELP_FLAG: FlagSpec = { type: 'boolean', description: 'Show this help' };
+
+// `--name <value>`, as listed in the help
+function flagName(name: string, spec: FlagSpec): string {
+  return spec.type === 'boolean' ? `--${name}` : `--${name} <${spec.value ?? name}>`;
+}
+
+function parseFlag(name: string, spec: FlagSpec, value: string): string | number {
+  if (spec.type === 'integer') {
+    const min = spec.min ?? 0;
+    const number = Number(value);
+    if (!/^-?\d+$/.test(value) || !Number.isSafeInteger(number) || number < min) {
+      throw new UsageError(
+        `--${name} must be a whole number${min !== 0 ? ` of at least ${min}` : ''}, got "${value}"`
+      );
+    }
+    return number;
+  }
+  if (spec.choices && !spec.choices.includes(value)) {
+    throw new UsageError(`--${name} must be one of ${spec.choices.join(', ')}, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse and validate the arguments of `command`. Throws a UsageError naming
+ * the flag or argument at fault.
+ */
+export function parseCommandArgs<F extends FlagSpecs>(
+  command: Command<F>,
+  argv: string[]
+): CommandInput<F> & { help: boolean } {
+  const specs: FlagSpecs = { ...command.flags, help: HELP_FLAG };
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: Object.fromEntries(
+        Object.entries(specs).map(([name, { type }]) => [
+          name,
+          type === 'boolean' ? { type: 'boolean' } : { type: 'string' },
+        ])
+      ) as Record<string, { type: 'string' | 'boolean' }>,
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    // node:util reports unknown flags and missing values as ERR_PARSE_ARGS_*
+    if (String((error as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS')) {
+      throw new UsageError((error as Error).message.split('. ')[0]);
+    }
+    throw error;
+  }
+  if (parsed.values.help) {
+    return { flags: {} as FlagValues<F>, args: [], help: true };
+  }
+
+  const flags: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(command.flags)) {
+    const value = parsed.values[name];
+    if (spec.type === 'boolean') {
+      flags[name] = value ?? spec.default ?? false;
+    } else if (typeof value === 'string') {
+      flags[name] = parseFlag(name, spec, value);
+    } else if (spec.required) {
+      throw new UsageError(`${flagName(name, spec)} is required`);
+    } else {
+      flags[name] = spec.default;
+    }
+  }
+
+  const expected = command.args ?? [];
+  if (parsed.positionals.length > expected.length) {
+    const extra = parsed.positionals.slice(expected.length).join(' ');
+    throw new UsageError(`Unexpected argument(s): ${extra}`);
+  }
+  expected.forEach(({ name, required }, i) => {
+    if (required && parsed.positionals[i] === undefined) {
+      throw new UsageError(`Missing argument <${name}>`);
+    }
+  });
+
+  return { flags: flags as FlagValues<F>, args: parsed.positionals, help: false };
+}
+
+// Two-column lines, left column padded to the widest entry
+function columns(rows: [string, string][]): string[] {
+  const width = Math.max(...rows.map(([left]) => left.length));
+  return rows.map(([left, right]) => `  ${left.padEnd(width)}  ${right}`);
+}
+
+/**
+ * The --help text of a command.
+ */
+export function commandHelp(program: string, command: Command): string {
+  const args = (command.args ?? [])
+    .map(({ name, required }) => (required ? `<${name}>` : `[${name}]`))
+    .join(' ');
+  const lines = [
+    `Usage: ${program} ${command.name}${args ? ` ${args}` : ''} [options]`,
+    '',
+    command.description ?? command.summary,
+  ];
+
+  if (command.args?.length) {
+    lines.push('', 'Arguments:');
+    lines.push(...columns(command.args.map(({ name, description }) => [name, description])));
+  }
+
+  lines.push('', 'Options:');
+  const flags: [string, string][] = Object.entries(command.flags).map(([name, spec]) => {
+    const notes = [
+      spec.choices ? `one of ${spec.choices.join(', ')}` : '',
+      spec.default !== undefined && spec.type !== 'boolean' ? `default: ${spec.default}` : '',
+    ].filter(Boolean);
+    return [
+      flagName(name, spec),
+      notes.length ? `${spec.description} (${notes.join('; ')})` : spec.description,
+    ];
+  });
+  lines.push(...columns([...flags, ['--help', HELP_FLAG.description]]));
+  return lines.join('\n');
+}
+
+/**
+ * The --help text listing every command.
+ */
+export function programHelp(program: string, commands: Command[]): string {
+  return [
+    `Usage: ${program} <command> [options]`,
+    '',
+    'Commands:',
+    ...columns(commands.map(({ name, summary }) => [name, summary])),
+    '',
+    `Run "${program} <command> --help" for the options of a command.`,
+    '',
+    'Exit codes:',
+    ...columns([
+      [String(EXIT_CODES.ok), 'success'],
+      [String(EXIT_CODES.failed), 'error'],
+      [String(EXIT_CODES.usage), 'invalid command, flag or argument'],
+      [String(EXIT_CODES.config), 'missing or invalid environment (.env)'],
+      [
+        String(EXIT_CODES.partial),
+        'finished, but some entities were not generated, written or deleted',
+      ],
+    ]),
+  ].join('\n');
+}
+
+/**
+ * Run the command named by the first argument and resolve to the exit code.
+ * Errors are reported here; commands just throw.
+ */
+export async function runCli(
+  program: string,
+  commands: Command[],
+  argv: string[]
+): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (name === undefined || name === 'help' || name === '--help') {
+    const topic =
+      name === 'help' ? commands.find((command) => command.name === rest[0]) : undefined;
+    const help = topic ? commandHelp(program, topic) : programHelp(program, commands);
+    if (name === undefined) {
+      console.error(help);
+      return EXIT_CODES.usage;
+    }
+    console.log(help);
+    return EXIT_CODES.ok;
+  }
+
+  const command = commands.find((candidate) => candidate.name === name);
+  if (!command) {
+    console.error(`❌ Unknown command "${name}"`);
+    console.error(`   Commands: ${commands.map((candidate) => candidate.name).join(', ')}`);
+    return EXIT_CODES.usage;
+  }
+
+  try {
+    const { help, ...input } = parseCommandArgs(command, rest);
+    if (help) {
+      console.log(commandHelp(program, command));
+      return EXIT_CODES.ok;
+    }
+    return (await command.run(input)) ?? EXIT_CODES.ok;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}`);
+      console.error(`   Run "${program} ${command.name} --help" for usage`);
+      return EXIT_CODES.usage;
+    }
+    if (error instanceof ConfigError) {
+      console.error(`❌ Error: ${error.message}`);
+      return EXIT_CODES.config;
+    }
+    console.error('❌ Error:', error instanceof Error ? error.message : error);
+    return EXIT_CODES.failed;
+  }
+}
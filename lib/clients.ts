@@ -0,0 +1,134 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  webSocket,
+  type Hex,
+  type PublicArkivClient,
+  type WalletArkivClient,
+} from '@arkiv-network/sdk';
+import { privateKeyToAccount } from '@arkiv-network/sdk/accounts';
+import { kaolin, localhost, marketplace, mendoza } from '@arkiv-network/sdk/chains';
+import { ConfigError } from './cli';
+
+// ============================================================================
+// ARKIV CLIENTS
+// ============================================================================
+//
+// Clients for an Arkiv chain, configured from the environment (.env):
+// ARKIV_CHAIN picks the chain (the Mendoza testnet by default), RPC_URL and
+// WS_URL override its endpoints, and PRIVATE_KEY is the account that writes.
+// ARKIV_CHAIN=custom describes any other chain, e.g. a local dev node, by
+// ARKIV_CHAIN_ID and ARKIV_CHAIN_NAME, with RPC_URL (and WS_URL to watch).
+
+export const FAUCET_URL = 'https://mendoza.hoodi.arkiv.network/faucet/';
+
+// Chains the SDK defines, by their ARKIV_CHAIN name
+const ARKIV_CHAINS = { mendoza, kaolin, marketplace, localhost };
+
+type ArkivChain = NonNullable<Parameters<typeof createPublicClient>[0]['chain']>;
+
+const PLACEHOLDER_KEY = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+/**
+ * The chain the clients connect to, from ARKIV_CHAIN; a ConfigError when it is
+ * unknown or a custom chain lacks its settings.
+ */
+export function arkivChain(): ArkivChain {
+  const name = process.env.ARKIV_CHAIN || 'mendoza';
+  if (name !== 'custom') {
+    if (!Object.hasOwn(ARKIV_CHAINS, name)) {
+      throw new ConfigError(
+        `ARKIV_CHAIN must be one of ${Object.keys(ARKIV_CHAINS).join(', ')} or custom, not ${name}`
+      );
+    }
+    return ARKIV_CHAINS[name as keyof typeof ARKIV_CHAINS];
+  }
+
+  const id = Number(process.env.ARKIV_CHAIN_ID);
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    throw new ConfigError('ARKIV_CHAIN=custom needs ARKIV_CHAIN_ID, a positive integer chain id');
+  }
+  const rpcUrl = process.env.RPC_URL;
+  if (!rpcUrl) {
+    throw new ConfigError('ARKIV_CHAIN=custom needs RPC_URL, the endpoint of the chain');
+  }
+  const wsUrl = process.env.WS_URL;
+  return {
+    ...localhost,
+    id,
+    name: process.env.ARKIV_CHAIN_NAME || `Custom Chain ${id}`,
+    rpcUrls: { default: { http: [rpcUrl], ...(wsUrl && { webSocket: [wsUrl] }) } },
+  };
+}
+
+/**
+ * The chain's name for messages, e.g. "Arkiv Mendoza Testnet".
+ */
+export function arkivNetworkName(): string {
+  const { name, testnet } = arkivChain();
+  return `Arkiv ${name}${testnet ? ' Testnet' : ''}`;
+}
+
+/**
+ * The PRIVATE_KEY from the environment; a ConfigError when it is missing or
+ * still the placeholder of .env.example.
+ */
+export function requirePrivateKey(): Hex {
+  const key = process.env.PRIVATE_KEY;
+  if (!key || key === PLACEHOLDER_KEY) {
+    throw new ConfigError(
+      arkivChain().id === mendoza.id
+        ? `Please set your PRIVATE_KEY in the .env file (testnet funds: ${FAUCET_URL})`
+        : 'Please set your PRIVATE_KEY in the .env file'
+    );
+  }
+  if (!/^0x[0-9a-fA-F]{64}$/.test(key)) {
+    throw new ConfigError('PRIVATE_KEY must be 0x followed by 64 hex digits');
+  }
+  return key as Hex;
+}
+
+export function createArkivPublicClient(): PublicArkivClient {
+  return createPublicClient({
+    chain: arkivChain(),
+    transport: http(process.env.RPC_URL),
+  });
+}
+
+/**
+ * A wallet client for the account in PRIVATE_KEY.
+ */
+export function createArkivWalletClient(): WalletArkivClient {
+  return createWalletClient({
+    chain: arkivChain(),
+    transport: http(process.env.RPC_URL),
+    account: privateKeyToAccount(requirePrivateKey()),
+  });
+}
+
+/**
+ * The WebSocket endpoint to watch: WS_URL, or the chain's default one; a
+ * ConfigError when there is neither.
+ */
+export function arkivSocketUrl(): string {
+  const chain = arkivChain();
+  const url = process.env.WS_URL || chain.rpcUrls.default.webSocket?.[0];
+  if (!url) {
+    throw new ConfigError(
+      `Please set WS_URL in the .env file: ${chain.name} has no default WebSocket endpoint`
+    );
+  }
+  return url;
+}
+
+/**
+ * A public client over a new WebSocket, for subscriptions. It does not
+ * reconnect on its own: lib/entity-watch.ts does, catching up on missed blocks.
+ */
+export function createArkivSocketClient(url = arkivSocketUrl()): PublicArkivClient {
+  return createPublicClient({
+    chain: arkivChain(),
+    transport: webSocket(url, { reconnect: false }),
+  });
+}
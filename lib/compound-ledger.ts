@@ -0,0 +1,215 @@
+import type { PriceOf } from './aave-ledger';
+
+// ============================================================================
+// COMPOUND V3 MARKET LEDGER
+// ============================================================================
+//
+// Tracks one Compound V3 (Comet) market in token units: every user's base
+// balance (negative while borrowing) and collateral per asset, and the
+// collateral the protocol took over in absorptions. As in the real contract,
+// withdrawing more base than supplied borrows it and supplying base repays
+// debt first. Borrowing is limited by collateral value × borrowCollateralFactor,
+// and a position can be absorbed once its debt exceeds collateral value ×
+// liquidateCollateralFactor. Absorbed collateral is sold to buyers below the
+// market price until the protocol has none left.
+
+// Mainnet Comet proxies by base asset
+export const COMET_ADDRESSES: Record<string, `0x${string}`> = {
+  USDC: '0xc3d688B66703497DAA19211EEdff47f25384cdc3',
+  WETH: '0xA17581A9E3356d9A858b789D68B4d866e593aE94',
+  USDT: '0x3Afdc9BCA9213A35503b077a6072F3D0d5AB0840',
+};
+
+// Balances below this are rounding leftovers and are dropped
+const DUST = 1e-9;
+
+export interface CollateralConfig {
+  // Share of the collateral value that can be borrowed against
+  borrowCollateralFactor: number;
+  // Share of the collateral value at which the position can be absorbed
+  liquidateCollateralFactor: number;
+  // Share of the collateral value credited to the borrower when absorbed
+  liquidationFactor: number;
+}
+
+export interface CometConfig {
+  // The asset lent and borrowed
+  base: string;
+  collateral: Record<string, CollateralConfig>;
+  // Share of the liquidation penalty given up as a discount to collateral buyers
+  storeFrontPriceFactor: number;
+}
+
+export interface CometPosition {
+  baseBalance: number;
+  collateral: Record<string, number>;
+}
+
+// Positions by user address and the collateral owned by the protocol, saved in checkpoints
+export interface CompoundLedgerState {
+  positions: Record<string, CometPosition>;
+  reserves: Record<string, number>;
+}
+
+export interface Absorption {
+  // Base credited to the borrower: the debt written off, or more when the
+  // collateral was worth more than the debt
+  basePaidOut: number;
+  // Collateral taken over by the protocol, per asset
+  collateral: Record<string, number>;
+}
+
+export interface CompoundLedger {
+  position(user: string): CometPosition;
+  // Users with a base supply or collateral, and users with a base debt
+  users(): string[];
+  borrowers(): string[];
+  // Base supplies repay debt first; collateral is added to the position
+  supply(user: string, asset: string, amount: number): void;
+  // Base withdrawals beyond the supplied balance borrow the rest
+  withdraw(user: string, asset: string, amount: number): void;
+  // USD value the user can still borrow under the borrow factors of their collateral
+  borrowCapacityUSD(user: string, priceOf: PriceOf): number;
+  // Largest amount of `asset` the user can withdraw (or borrow) and stay collateralized
+  maxWithdraw(user: string, asset: string, priceOf: PriceOf): number;
+  isLiquidatable(user: string, priceOf: PriceOf): boolean;
+  // Take over all of the user's collateral and credit its value to their base balance
+  absorb(user: string, priceOf: PriceOf): Absorption;
+  // Collateral owned by the protocol, per asset
+  reserves(): Record<string, number>;
+  // Discounted price of `asset` in base units, as collateral buyers pay it
+  collateralPrice(asset: string, priceOf: PriceOf): number;
+  // Sell `amount` of the protocol's collateral; returns the base paid for it
+  buyCollateral(asset: string, amount: number, priceOf: PriceOf): number;
+  getState(): CompoundLedgerState;
+}
+
+/**
+ * Keep the positions of one Comet market, starting empty or from a saved state.
+ */
+export function createCompoundLedger(
+  config: CometConfig,
+  state: CompoundLedgerState = { positions: {}, reserves: {} }
+): CompoundLedger {
+  const positions = structuredClone(state.positions);
+  const reserves = structuredClone(state.reserves);
+
+  function collateralOf(asset: string): CollateralConfig {
+    const collateral = config.collateral[asset];
+    if (!collateral) {
+      throw new Error(`${asset} is not a collateral asset of the ${config.base} Comet market`);
+    }
+    return collateral;
+  }
+
+  function position(user: string): CometPosition {
+    positions[user] ??= { baseBalance: 0, collateral: {} };
+    return positions[user];
+  }
+
+  function subtract(balances: Record<string, number>, asset: string, amount: number): void {
+    const balance = balances[asset] ?? 0;
+    if (amount > balance + DUST) {
+      throw new Error(`Cannot take ${amount} ${asset} from a balance of ${balance}`);
+    }
+    if (balance - amount < DUST) {
+      delete balances[asset];
+    } else {
+      balances[asset] = balance - amount;
+    }
+  }
+
+  function collateralUSD(user: string, priceOf: PriceOf, factor: keyof CollateralConfig): number {
+    return Object.entries(position(user).collateral).reduce(
+      (sum, [asset, amount]) => sum + amount * priceOf(asset) * collateralOf(asset)[factor],
+      0
+    );
+  }
+
+  function debtUSD(user: string, priceOf: PriceOf): number {
+    return Math.max(0, -position(user).baseBalance) * priceOf(config.base);
+  }
+
+  function borrowCapacityUSD(user: string, priceOf: PriceOf): number {
+    return Math.max(
+      0,
+      collateralUSD(user, priceOf, 'borrowCollateralFactor') - debtUSD(user, priceOf)
+    );
+  }
+
+  function collateralPrice(asset: string, priceOf: PriceOf): number {
+    const discount = config.storeFrontPriceFactor * (1 - collateralOf(asset).liquidationFactor);
+    return (priceOf(asset) * (1 - discount)) / priceOf(config.base);
+  }
+
+  return {
+    position,
+    users() {
+      return Object.keys(positions).filter(
+        (user) =>
+          positions[user].baseBalance > 0 || Object.keys(positions[user].collateral).length > 0
+      );
+    },
+    borrowers() {
+      return Object.keys(positions).filter((user) => positions[user].baseBalance < 0);
+    },
+    supply(user, asset, amount) {
+      const { collateral } = position(user);
+      if (asset === config.base) {
+        position(user).baseBalance += amount;
+      } else {
+        collateralOf(asset);
+        collateral[asset] = (collateral[asset] ?? 0) + amount;
+      }
+    },
+    withdraw(user, asset, amount) {
+      if (asset === config.base) {
+        const balance = position(user).baseBalance - amount;
+        position(user).baseBalance = Math.abs(balance) < DUST ? 0 : balance;
+      } else {
+        subtract(position(user).collateral, asset, amount);
+      }
+    },
+    borrowCapacityUSD,
+    maxWithdraw(user, asset, priceOf) {
+      const capacityUSD = borrowCapacityUSD(user, priceOf);
+      if (asset === config.base) {
+        return Math.max(0, position(user).baseBalance) + capacityUSD / priceOf(config.base);
+      }
+      const held = position(user).collateral[asset] ?? 0;
+      if (debtUSD(user, priceOf) === 0) {
+        return held;
+      }
+      return Math.min(
+        held,
+        capacityUSD / collateralOf(asset).borrowCollateralFactor / priceOf(asset)
+      );
+    },
+    isLiquidatable(user, priceOf) {
+      const debt = debtUSD(user, priceOf);
+      return debt > 0 && debt > collateralUSD(user, priceOf, 'liquidateCollateralFactor');
+    },
+    absorb(user, priceOf) {
+      const { baseBalance, collateral } = position(user);
+      const creditUSD = collateralUSD(user, priceOf, 'liquidationFactor');
+      // Debt the collateral does not cover is written off by the protocol
+      const newBalance = Math.max(0, baseBalance + creditUSD / priceOf(config.base));
+      for (const [asset, amount] of Object.entries(collateral)) {
+        reserves[asset] = (reserves[asset] ?? 0) + amount;
+      }
+      positions[user] = { baseBalance: newBalance, collateral: {} };
+      return { basePaidOut: newBalance - baseBalance, collateral: { ...collateral } };
+    },
+    reserves() {
+      return { ...reserves };
+    },
+    collateralPrice,
+    buyCollateral(asset, amount, priceOf) {
+      subtract(reserves, asset, amount);
+      return amount * collateralPrice(asset, priceOf);
+    },
+    getState() {
+      return { positions: structuredClone(positions), reserves: { ...reserves } };
+    },
+  };
+}
@@ -0,0 +1,205 @@
+// ============================================================================
+// CURVE STABLE POOLS
+// ============================================================================
+//
+// StableSwap pools of coins that trade near 1:1 (stablecoins, or an asset and
+// its wrapped versions). Each pool holds a balance of every coin and an LP
+// token supply, and prices trades with the StableSwap invariant D for its
+// amplification A: the higher A, the longer the price stays at 1:1 as the
+// balances drift apart. Exchanges pay the pool fee on the output, deposits
+// that unbalance the pool pay part of it on the imbalance, and fees stay in
+// the pool, so the value of an LP token grows as it trades.
+//
+// Coins are counted 1:1, in token units, as in pools without rate oracles.
+
+// Newton iterations stop once successive values agree to this relative precision
+const PRECISION = 1e-12;
+const MAX_ITERATIONS = 255;
+
+// Mainnet addresses of well-known pools, by their coins
+export const CURVE_POOL_ADDRESSES: Record<string, `0x${string}`> = {
+  'DAI/USDC/USDT': '0xbEbc44782C7dB0a1A60Cb6fe97d0b483032FF1C7',
+};
+
+export interface CurvePoolConfig {
+  name: string;
+  coins: string[];
+  // Amplification coefficient
+  A: number;
+  // Fee on exchange outputs, as a fraction (0.0001 = 0.01%)
+  fee: number;
+  address: string;
+}
+
+export interface CurvePool extends CurvePoolConfig {
+  balances: number[];
+  lpSupply: number;
+  // LP tokens by holder
+  lpBalances: Record<string, number>;
+}
+
+// Pools by name, saved in checkpoints
+export type CurvePoolsState = Record<string, CurvePool>;
+
+export interface ExchangeResult {
+  amountOut: number;
+  // Fee kept by the pool, in the output coin
+  feeAmount: number;
+}
+
+export interface LiquidityChange {
+  // Coin amounts added or removed, in the order of the pool's coins
+  amounts: number[];
+  // Imbalance fees paid on a deposit, per coin
+  fees: number[];
+  lpAmount: number;
+}
+
+export interface CurvePools {
+  pools(): CurvePool[];
+  // The pool with its state, created empty if it has none yet
+  pool(config: CurvePoolConfig): CurvePool;
+  exchange(name: string, i: number, j: number, amountIn: number): ExchangeResult;
+  addLiquidity(name: string, provider: string, amounts: number[]): LiquidityChange;
+  // Balanced withdrawal of `lpAmount` LP tokens
+  removeLiquidity(name: string, provider: string, lpAmount: number): LiquidityChange;
+  getState(): CurvePoolsState;
+}
+
+// The StableSwap invariant of `balances`
+function invariant(balances: number[], A: number): number {
+  const n = balances.length;
+  const sum = balances.reduce((total, balance) => total + balance, 0);
+  if (sum === 0) {
+    return 0;
+  }
+  const Ann = A * n;
+  let D = sum;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let Dp = D;
+    for (const balance of balances) {
+      Dp = (Dp * D) / (balance * n);
+    }
+    const previous = D;
+    D = ((Ann * sum + Dp * n) * D) / ((Ann - 1) * D + (n + 1) * Dp);
+    if (Math.abs(D - previous) <= D * PRECISION) {
+      break;
+    }
+  }
+  return D;
+}
+
+// Balance of coin j that keeps the invariant once coin i's balance is x
+function balanceFor(balances: number[], A: number, i: number, j: number, x: number): number {
+  const n = balances.length;
+  const D = invariant(balances, A);
+  const Ann = A * n;
+  let c = D;
+  let sum = 0;
+  for (let k = 0; k < n; k++) {
+    if (k === j) {
+      continue;
+    }
+    const balance = k === i ? x : balances[k];
+    sum += balance;
+    c = (c * D) / (balance * n);
+  }
+  c = (c * D) / (Ann * n);
+  const b = sum + D / Ann;
+  let y = D;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const previous = y;
+    y = (y * y + c) / (2 * y + b - D);
+    if (Math.abs(y - previous) <= y * PRECISION) {
+      break;
+    }
+  }
+  return y;
+}
+
+/**
+ * Keep Curve pool balances and LP positions, starting empty or from a saved state.
+ */
+export function createCurvePools(state: CurvePoolsState = {}): CurvePools {
+  const pools: CurvePoolsState = structuredClone(state);
+
+  function poolOf(name: string): CurvePool {
+    const pool = pools[name];
+    if (!pool) {
+      throw new Error(`Curve pool ${name} has no liquidity`);
+    }
+    return pool;
+  }
+
+  return {
+    pools() {
+      return Object.values(pools);
+    },
+    pool(config) {
+      pools[config.name] ??= {
+        ...structuredClone(config),
+        balances: config.coins.map(() => 0),
+        lpSupply: 0,
+        lpBalances: {},
+      };
+      return pools[config.name];
+    },
+    exchange(name, i, j, amountIn) {
+      const pool = poolOf(name);
+      const out =
+        pool.balances[j] - balanceFor(pool.balances, pool.A, i, j, pool.balances[i] + amountIn);
+      const feeAmount = out * pool.fee;
+      pool.balances[i] += amountIn;
+      pool.balances[j] -= out - feeAmount;
+      return { amountOut: out - feeAmount, feeAmount };
+    },
+    addLiquidity(name, provider, amounts) {
+      const pool = poolOf(name);
+      const n = pool.coins.length;
+      const D0 = invariant(pool.balances, pool.A);
+      const newBalances = pool.balances.map((balance, k) => balance + amounts[k]);
+      const D1 = invariant(newBalances, pool.A);
+      let fees = pool.coins.map(() => 0);
+      let lpAmount = D1;
+
+      if (pool.lpSupply > 0) {
+        // Coins deposited beyond the pool's proportions pay part of the fee
+        const imbalanceFee = (pool.fee * n) / (4 * (n - 1));
+        fees = newBalances.map((balance, k) => {
+          const ideal = (D1 * pool.balances[k]) / D0;
+          return imbalanceFee * Math.abs(ideal - balance);
+        });
+        const D2 = invariant(
+          newBalances.map((balance, k) => balance - fees[k]),
+          pool.A
+        );
+        lpAmount = (pool.lpSupply * (D2 - D0)) / D0;
+      }
+
+      pool.balances = newBalances;
+      pool.lpSupply += lpAmount;
+      pool.lpBalances[provider] = (pool.lpBalances[provider] ?? 0) + lpAmount;
+      return { amounts: [...amounts], fees, lpAmount };
+    },
+    removeLiquidity(name, provider, lpAmount) {
+      const pool = poolOf(name);
+      const held = pool.lpBalances[provider] ?? 0;
+      if (lpAmount > held * (1 + PRECISION)) {
+        throw new Error(`Cannot burn ${lpAmount} LP tokens of ${name} from a balance of ${held}`);
+      }
+      const share = lpAmount / pool.lpSupply;
+      const amounts = pool.balances.map((balance) => balance * share);
+      pool.balances = pool.balances.map((balance, k) => balance - amounts[k]);
+      pool.lpSupply -= lpAmount;
+      if (held - lpAmount <= held * PRECISION) {
+        delete pool.lpBalances[provider];
+      } else {
+        pool.lpBalances[provider] = held - lpAmount;
+      }
+      return { amounts, fees: pool.coins.map(() => 0), lpAmount };
+    },
+    getState() {
+      return structuredClone(pools);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { appendFile, readFile, rename, writeFile } from 'node:fs/promises';
+import type { CreateEntityParameters } from '@arkiv-network/sdk';
+import { classifyError, WriteFailedError, type FailureClassification } from './retry';
+import { fromEntityRecord, toEntityRecord, type EntityRecord } from './sinks';
+
+// ============================================================================
+// DEAD-LETTER FILE
+// ============================================================================
+//
+// Entities that could not be written even after retrying are appended to an
+// NDJSON file, one line each, so they can be inspected and re-submitted with
+// the replay-dead-letters command instead of silently leaving holes in the
+// dataset.
+
+export const DEFAULT_DEAD_LETTER_PATH = 'dead-letters.ndjson';
+
+export interface DeadLetter {
+  failedAt: string;
+  kind: FailureClassification['kind'];
+  reason: string;
+  attempts: number;
+  error: string;
+  record: EntityRecord;
+}
+
+export function toDeadLetter(entity: CreateEntityParameters, error: unknown): DeadLetter {
+  const failure = error instanceof WriteFailedError ? error : undefined;
+  const classification = failure?.classification ?? classifyError(error);
+  return {
+    failedAt: new Date().toISOString(),
+    kind: classification.kind,
+    reason: classification.reason,
+    attempts: failure?.attempts ?? 1,
+    error: error instanceof Error ? error.message : String(error),
+    record: toEntityRecord(entity),
+  };
+}
+
+/**
+ * Append failed entities to the dead-letter file at `path`.
+ */
+export async function appendDeadLetters(
+  path: string,
+  entities: CreateEntityParameters[],
+  error: unknown
+): Promise<void> {
+  const lines = entities.map((entity) => JSON.stringify(toDeadLetter(entity, error)) + '\n');
+  await appendFile(path, lines.join(''), 'utf8');
+}
+
+export async function readDeadLetters(path: string): Promise<DeadLetter[]> {
+  const content = await readFile(path, 'utf8');
+  // Line numbers in errors count the blank lines that are skipped
+  return content.split('\n').flatMap((line, i) => {
+    if (line.trim() === '') {
+      return [];
+    }
+    try {
+      return [JSON.parse(line) as DeadLetter];
+    } catch {
+      throw new Error(`${path}:${i + 1}: not a valid dead-letter record`);
+    }
+  });
+}
+
+/**
+ * Replace the dead-letter file with the given entries (written to a temporary
+ * file first so a crash never leaves it half-written).
+ */
+export async function rewriteDeadLetters(path: string, deadLetters: DeadLetter[]): Promise<void> {
+  const tmpPath = `${path}.tmp`;
+  await writeFile(
+    tmpPath,
+    deadLetters.map((entry) => JSON.stringify(entry) + '\n').join(''),
+    'utf8'
+  );
+  await rename(tmpPath, path);
+}
+
+export function deadLetterEntity(deadLetter: DeadLetter): CreateEntityParameters {
+  return fromEntityRecord(deadLetter.record);
+}
@@ -0,0 +1,119 @@
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from 'node:zlib';
+import type { Attribute, MimeType } from '@arkiv-network/sdk';
+import { decode, encode } from '@msgpack/msgpack';
+import type { GeneratedEntity } from './types';
+
+// ============================================================================
+// PAYLOAD ENCODINGS
+// ============================================================================
+//
+// How entity payloads are serialized. Each encoding sets its content type, and
+// every entity also gets an `encoding` attribute naming it. Brotli and
+// MessagePack share application/octet-stream because Arkiv only accepts a
+// fixed set of MIME types, so decodePayload() relies on that attribute to tell
+// them apart.
+
+export type PayloadEncoding = 'json' | 'json-compact' | 'gzip' | 'brotli' | 'msgpack';
+
+export const PAYLOAD_ENCODINGS: PayloadEncoding[] = [
+  'json',
+  'json-compact',
+  'gzip',
+  'brotli',
+  'msgpack',
+];
+
+export const ENCODING_ATTRIBUTE = 'encoding';
+
+const CONTENT_TYPES: Record<PayloadEncoding, MimeType> = {
+  // Pretty-printed, the original format
+  json: 'application/json',
+  'json-compact': 'application/json',
+  // Compact JSON, compressed
+  gzip: 'application/gzip',
+  brotli: 'application/octet-stream',
+  msgpack: 'application/octet-stream',
+};
+
+export interface EncodedPayload {
+  payload: Uint8Array;
+  contentType: MimeType;
+  // The `encoding` attribute to add to the entity's attributes
+  attribute: Attribute;
+}
+
+/**
+ * Serialize an entity payload with the given encoding.
+ */
+export function encodePayload(value: unknown, encoding: PayloadEncoding): EncodedPayload {
+  let payload: Uint8Array;
+  switch (encoding) {
+    case 'json':
+      payload = new TextEncoder().encode(JSON.stringify(value, null, 2));
+      break;
+    case 'json-compact':
+      payload = new TextEncoder().encode(JSON.stringify(value));
+      break;
+    case 'gzip':
+      payload = new Uint8Array(gzipSync(JSON.stringify(value)));
+      break;
+    case 'brotli':
+      payload = new Uint8Array(brotliCompressSync(JSON.stringify(value)));
+      break;
+    case 'msgpack':
+      // Leave out undefined fields, as JSON does
+      payload = encode(value, { ignoreUndefined: true });
+      break;
+  }
+  return {
+    payload,
+    contentType: CONTENT_TYPES[encoding],
+    attribute: { key: ENCODING_ATTRIBUTE, value: encoding },
+  };
+}
+
+// What decodePayload needs: an Arkiv query result, or the parameters of a write
+export interface EncodedEntity {
+  payload?: Uint8Array;
+  contentType?: MimeType;
+  attributes?: Attribute[];
+}
+
+/**
+ * Read an entity payload back, whatever it was encoded with. JSON-based and
+ * MessagePack payloads return the entity (by default typed as one the
+ * generators push); text/plain payloads return their text.
+ */
+export function decodePayload<T = GeneratedEntity>(entity: EncodedEntity): T {
+  const { payload, contentType } = entity;
+  if (!payload) {
+    throw new Error('Entity has no payload (query it with withPayload(true))');
+  }
+
+  switch (contentType) {
+    case 'text/plain':
+      return new TextDecoder().decode(payload) as T;
+    case 'application/json':
+      return JSON.parse(new TextDecoder().decode(payload)) as T;
+    case 'application/gzip':
+      return JSON.parse(gunzipSync(payload).toString('utf8')) as T;
+    case 'application/octet-stream': {
+      const encoding = entity.attributes?.find(({ key }) => key === ENCODING_ATTRIBUTE)?.value;
+      if (encoding === 'brotli') {
+        return JSON.parse(brotliDecompressSync(payload).toString('utf8')) as T;
+      }
+      if (encoding === 'msgpack') {
+        return decode(payload) as T;
+      }
+      throw new Error(
+        `Cannot decode an application/octet-stream payload with ${ENCODING_ATTRIBUTE} attribute ${encoding ?? '(missing)'}`
+      );
+    }
+    default:
+      throw new Error(
+        contentType
+          ? `Cannot decode payloads of content type ${contentType}`
+          : 'Entity has no content type (query it with withMetadata(true))'
+      );
+  }
+}
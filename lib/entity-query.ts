@@ -0,0 +1,261 @@
+import type { Attribute, Entity, Hex, PublicArkivClient } from '@arkiv-network/sdk';
+import { eq, gte, lt, lte, or, type Predicate } from '@arkiv-network/sdk/query';
+import type { FlagSpecs, FlagValues } from './cli';
+import { decodePayload } from './encoding';
+import type { EntityType, GeneratedEntity } from './types';
+
+// ============================================================================
+// ENTITY QUERIES
+// ============================================================================
+//
+// Turns filters on the generated entities into Arkiv query predicates and
+// pages through the results. Filters map onto the attributes written by
+// lib/attributes.ts; an asset or user filter matches whichever field holds
+// the asset or user in each entity type.
+
+export interface EntityFilters {
+  entityType?: string;
+  protocol?: string;
+  // Source network of the events
+  network?: string;
+  eventType?: string;
+  // Aave reserve, snapshot asset or either token of a Uniswap pool
+  asset?: string;
+  // Aave user, swap sender or LP owner
+  user?: string;
+  seed?: string;
+  runId?: string;
+  // Inclusive block range
+  fromBlock?: number;
+  toBlock?: number;
+  // Time range, `from` inclusive and `to` exclusive (any format Date.parse accepts)
+  from?: string;
+  to?: string;
+}
+
+// Command-line flags for the filters (see lib/cli.ts)
+export const FILTER_FLAGS = {
+  'entity-type': {
+    type: 'string',
+    value: 'type',
+    description: 'Entity type: protocol_event, aggregated_metric or price_snapshot',
+  },
+  protocol: {
+    type: 'string',
+    description: 'Protocol: aave-v3, uniswap-v3, compound-v3, curve or lido',
+  },
+  network: {
+    type: 'string',
+    description: 'Source network: ethereum, arbitrum, optimism, base or polygon',
+  },
+  'event-type': { type: 'string', value: 'type', description: 'Event type, e.g. Supply or Swap' },
+  asset: {
+    type: 'string',
+    value: 'symbol',
+    description: 'Event asset or reserve, snapshot asset, either pool token or a swapped token',
+  },
+  user: { type: 'string', value: 'address', description: 'Event user, swap sender or LP owner' },
+  seed: { type: 'string', description: 'Entities of the generator runs with this seed' },
+  run: { type: 'string', value: 'runId', description: 'Entities of one generator run' },
+  'from-block': { type: 'integer', value: 'n', description: 'First block, inclusive' },
+  'to-block': { type: 'integer', value: 'n', description: 'Last block, inclusive' },
+  from: { type: 'string', value: 'date', description: 'Start time, inclusive (ISO date)' },
+  to: { type: 'string', value: 'date', description: 'End time, exclusive (ISO date)' },
+} as const satisfies FlagSpecs;
+
+/**
+ * Filters from the parsed values of FILTER_FLAGS.
+ */
+export function filtersFromFlags(flags: FlagValues<typeof FILTER_FLAGS>): EntityFilters {
+  return {
+    entityType: flags['entity-type'],
+    protocol: flags.protocol,
+    network: flags.network,
+    eventType: flags['event-type'],
+    asset: flags.asset,
+    user: flags.user,
+    seed: flags.seed,
+    runId: flags.run,
+    fromBlock: flags['from-block'],
+    toBlock: flags['to-block'],
+    from: flags.from,
+    to: flags.to,
+  };
+}
+
+const ENTITY_TYPES: EntityType[] = ['protocol_event', 'aggregated_metric', 'price_snapshot'];
+const ASSET_ATTRIBUTES = ['reserve', 'asset', 'token0', 'token1', 'tokenIn', 'tokenOut'];
+const USER_ATTRIBUTES = ['user', 'sender', 'owner'];
+
+function toTimestamp(value: string): string {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid time ${value}: expected an ISO date`);
+  }
+  return new Date(time).toISOString();
+}
+
+function anyOf(keys: string[], value: string): Predicate {
+  return or(keys.map((key) => eq(key, value)));
+}
+
+/**
+ * Predicates selecting the entities that match every given filter.
+ */
+export function entityPredicates(filters: EntityFilters): Predicate[] {
+  const predicates: Predicate[] = [];
+  const add = (predicate: Predicate) => predicates.push(predicate);
+
+  if (filters.entityType) {
+    add(eq('entityType', filters.entityType));
+  }
+  if (filters.protocol) {
+    add(eq('protocol', filters.protocol));
+  }
+  if (filters.network) {
+    add(eq('network', filters.network));
+  }
+  if (filters.eventType) {
+    add(eq('eventType', filters.eventType));
+  }
+  if (filters.asset) {
+    add(anyOf(ASSET_ATTRIBUTES, filters.asset));
+  }
+  if (filters.user) {
+    add(anyOf(USER_ATTRIBUTES, filters.user));
+  }
+  if (filters.seed) {
+    add(eq('seed', filters.seed));
+  }
+  if (filters.runId) {
+    add(eq('runId', filters.runId));
+  }
+  if (filters.fromBlock !== undefined) {
+    add(gte('blockNumber', filters.fromBlock));
+  }
+  if (filters.toBlock !== undefined) {
+    add(lte('blockNumber', filters.toBlock));
+  }
+  // ISO timestamps in UTC sort the same as the times they stand for
+  if (filters.from) {
+    add(gte('timestamp', toTimestamp(filters.from)));
+  }
+  if (filters.to) {
+    add(lt('timestamp', toTimestamp(filters.to)));
+  }
+
+  // Arkiv needs at least one predicate: match every generated entity
+  if (predicates.length === 0) {
+    add(or(ENTITY_TYPES.map((entityType) => eq('entityType', entityType))));
+  }
+  return predicates;
+}
+
+/**
+ * Whether an entity's attributes match every given filter, the client-side
+ * equivalent of entityPredicates() for entities that were not queried.
+ */
+export function matchesFilters(attributes: Attribute[], filters: EntityFilters): boolean {
+  const values = new Map(attributes.map(({ key, value }) => [key, value]));
+  const has = (keys: string[], value: string) => keys.some((key) => values.get(key) === value);
+  const entityType = values.get('entityType');
+  const block = values.get('blockNumber');
+  const timestamp = values.get('timestamp');
+
+  // Only generated entities, whatever else the owner stores
+  if (!ENTITY_TYPES.includes(entityType as EntityType)) {
+    return false;
+  }
+  return (
+    (!filters.entityType || entityType === filters.entityType) &&
+    (!filters.protocol || has(['protocol'], filters.protocol)) &&
+    (!filters.network || has(['network'], filters.network)) &&
+    (!filters.eventType || has(['eventType'], filters.eventType)) &&
+    (!filters.asset || has(ASSET_ATTRIBUTES, filters.asset)) &&
+    (!filters.user || has(USER_ATTRIBUTES, filters.user)) &&
+    (!filters.seed || has(['seed'], filters.seed)) &&
+    (!filters.runId || has(['runId'], filters.runId)) &&
+    (filters.fromBlock === undefined ||
+      (typeof block === 'number' && block >= filters.fromBlock)) &&
+    (filters.toBlock === undefined || (typeof block === 'number' && block <= filters.toBlock)) &&
+    (!filters.from || (typeof timestamp === 'string' && timestamp >= toTimestamp(filters.from))) &&
+    (!filters.to || (typeof timestamp === 'string' && timestamp < toTimestamp(filters.to)))
+  );
+}
+
+export interface QueryOptions {
+  // Entities fetched per request
+  pageSize?: number;
+  // Stop after this many entities
+  limit?: number;
+}
+
+// An entity read back from Arkiv: its key, attributes and decoded payload
+export interface StoredEntity {
+  entityKey: string;
+  attributes: Entity['attributes'];
+  data: GeneratedEntity;
+}
+
+/**
+ * Page through the keys and attributes of every entity matching `filters`
+ * (or the given predicates) that is owned by `owner`, without fetching the
+ * payloads.
+ */
+export async function* queryOwnedEntityKeys(
+  client: PublicArkivClient,
+  filters: EntityFilters | Predicate[],
+  owner: Hex,
+  pageSize = 100
+): AsyncGenerator<{ entityKey: Hex; attributes: Attribute[] }> {
+  const result = await client
+    .buildQuery()
+    .where(Array.isArray(filters) ? filters : entityPredicates(filters))
+    .ownedBy(owner)
+    .withAttributes(true)
+    .limit(pageSize)
+    .fetch();
+
+  for (;;) {
+    for (const entity of result.entities) {
+      yield { entityKey: entity.key, attributes: entity.attributes };
+    }
+    if (!result.hasNextPage()) {
+      return;
+    }
+    await result.next();
+  }
+}
+
+/**
+ * Page through every entity matching `filters`, decoding the payloads.
+ */
+export async function* queryEntities(
+  client: PublicArkivClient,
+  filters: EntityFilters,
+  { pageSize = 100, limit = Infinity }: QueryOptions = {}
+): AsyncGenerator<StoredEntity> {
+  const result = await client
+    .buildQuery()
+    .where(entityPredicates(filters))
+    .withPayload(true)
+    .withAttributes(true)
+    // The content type, needed to decode the payload, comes with the metadata
+    .withMetadata(true)
+    .limit(pageSize)
+    .fetch();
+
+  let count = 0;
+  for (;;) {
+    for (const entity of result.entities) {
+      if (count++ >= limit) {
+        return;
+      }
+      yield { entityKey: entity.key, attributes: entity.attributes, data: decodePayload(entity) };
+    }
+    if (!result.hasNextPage()) {
+      return;
+    }
+    await result.next();
+  }
+}
@@ -0,0 +1,256 @@
+import { parseAbi, toHex, type Hex, type PublicArkivClient } from '@arkiv-network/sdk';
+import { ConfigError } from './cli';
+import { decodePayload } from './encoding';
+import { matchesFilters, type EntityFilters, type StoredEntity } from './entity-query';
+import { backoffDelay, type RetryPolicy } from './retry';
+
+// ============================================================================
+// ENTITY WATCH
+// ============================================================================
+//
+// Follows entity changes live through subscribeEntityEvents() and reports the
+// ones matching a set of filters. Change events only carry the entity key, so
+// created and updated entities are fetched to filter and decode them;
+// deletions and expirations are reported for entities seen matching earlier in
+// the watch.
+//
+// When the subscription fails (or a periodic block number check does), the
+// watcher reconnects with backoff and first replays the Arkiv logs of the
+// blocks it missed, from the last block it knew it was in sync with. Changes
+// seen both live and in the replay are reported once. A ConfigError from
+// creating the client is not retried: the watch fails with it.
+
+export type EntityChange = 'created' | 'updated' | 'deleted' | 'expired';
+
+export interface EntityChangeEvent {
+  change: EntityChange;
+  entityKey: Hex;
+  // The entity as of the change (created and updated only)
+  entity?: StoredEntity;
+  // Found while catching up after a reconnect rather than live
+  replayed: boolean;
+}
+
+export interface WatchHandlers {
+  onChange(event: EntityChangeEvent): void;
+  // Connection progress, for logging
+  onStatus?(message: string): void;
+}
+
+export interface WatchOptions {
+  // How often to check the connection and record the block in sync
+  heartbeatMs?: number;
+  // Backoff between reconnection attempts (maxAttempts is ignored: it retries forever)
+  reconnect?: RetryPolicy;
+}
+
+export interface EntityWatcher {
+  // Rejects when the watch cannot go on, with the ConfigError that ended it
+  readonly failed: Promise<never>;
+  stop(): Promise<void>;
+}
+
+const DEFAULT_HEARTBEAT_MS = 15_000;
+const DEFAULT_RECONNECT_POLICY: RetryPolicy = {
+  maxAttempts: Infinity,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+// Blocks per getLogs request when catching up
+const CATCH_UP_CHUNK = 1_000n;
+
+// The events subscribeEntityEvents() decodes, for replaying missed blocks
+const ENTITY_EVENTS = parseAbi([
+  'event ArkivEntityCreated(uint256 indexed entityKey, address indexed ownerAddress, uint256 expirationBlock, uint256 cost)',
+  'event ArkivEntityUpdated(uint256 indexed entityKey, address indexed ownerAddress, uint256 oldExpirationBlock, uint256 newExpirationBlock, uint256 cost)',
+  'event ArkivEntityExpired(uint256 indexed entityKey, address indexed ownerAddress)',
+  'event ArkivEntityDeleted(uint256 indexed entityKey, address indexed ownerAddress)',
+]);
+
+// Socket errors are ErrorEvents rather than Errors
+function errorMessage(error: unknown): string {
+  const message = (error as { message?: unknown } | undefined)?.message;
+  return typeof message === 'string' && message !== '' ? message.split('\n')[0] : String(error);
+}
+
+const LOG_CHANGES: Record<string, EntityChange> = {
+  ArkivEntityCreated: 'created',
+  ArkivEntityUpdated: 'updated',
+  ArkivEntityExpired: 'expired',
+  ArkivEntityDeleted: 'deleted',
+};
+
+/**
+ * Watch the entities matching `filters`. `createClient` is called for every
+ * connection, so it should open a new WebSocket transport each time.
+ */
+export function watchEntities(
+  createClient: () => PublicArkivClient,
+  filters: EntityFilters,
+  handlers: WatchHandlers,
+  { heartbeatMs = DEFAULT_HEARTBEAT_MS, reconnect = DEFAULT_RECONNECT_POLICY }: WatchOptions = {}
+): EntityWatcher {
+  // Keys of the entities reported so far, to report their deletion
+  const matched = new Set<string>();
+  // Changes already reported, so overlapping live and replayed events count once
+  const reported = new Set<string>();
+  // Changes are handled one at a time, in the order they arrive
+  let pending: Promise<void> = Promise.resolve();
+  // Last block all changes up to which were received
+  let syncedBlock: bigint | undefined;
+  let attempt = 0;
+  let stopped = false;
+  let connection: { unsubscribe?: () => void; heartbeat?: NodeJS.Timeout } = {};
+  let reconnectTimer: NodeJS.Timeout | undefined;
+  let fail!: (error: unknown) => void;
+  const failed = new Promise<never>((_, reject) => (fail = reject));
+
+  async function handle(
+    client: PublicArkivClient,
+    change: EntityChange,
+    entityKey: Hex,
+    replayed: boolean
+  ): Promise<void> {
+    if (change === 'deleted' || change === 'expired') {
+      const id = `${change}:${entityKey}`;
+      if (matched.has(entityKey) && !reported.has(id)) {
+        reported.add(id);
+        matched.delete(entityKey);
+        handlers.onChange({ change, entityKey, replayed });
+      }
+      return;
+    }
+
+    let entity;
+    try {
+      entity = await client.getEntity(entityKey);
+    } catch {
+      // Deleted or expired before it could be read; that change follows
+      return;
+    }
+    const id = `${entityKey}:${entity.lastModifiedAtBlock}`;
+    if (reported.has(id) || !matchesFilters(entity.attributes, filters)) {
+      return;
+    }
+    reported.add(id);
+    matched.add(entityKey);
+    handlers.onChange({
+      change,
+      entityKey,
+      entity: { entityKey, attributes: entity.attributes, data: decodePayload(entity) },
+      replayed,
+    });
+  }
+
+  function enqueue(client: PublicArkivClient, change: EntityChange, entityKey: Hex) {
+    pending = pending
+      .then(() => handle(client, change, entityKey, false))
+      .catch((error) => {
+        handlers.onStatus?.(`Skipped ${change} entity ${entityKey}: ${errorMessage(error)}`);
+      });
+  }
+
+  // Replay the changes of the blocks from `fromBlock` to `toBlock`
+  async function catchUp(client: PublicArkivClient, fromBlock: bigint, toBlock: bigint) {
+    for (let start = fromBlock; start <= toBlock; start += CATCH_UP_CHUNK) {
+      const end = start + CATCH_UP_CHUNK - 1n < toBlock ? start + CATCH_UP_CHUNK - 1n : toBlock;
+      const logs = await client.getLogs({
+        events: ENTITY_EVENTS,
+        fromBlock: start,
+        toBlock: end,
+        strict: true,
+      });
+      for (const log of logs) {
+        const entityKey = toHex(log.args.entityKey, { size: 32 });
+        await handle(client, LOG_CHANGES[log.eventName], entityKey, true);
+      }
+    }
+  }
+
+  function disconnect() {
+    clearInterval(connection.heartbeat);
+    try {
+      connection.unsubscribe?.();
+    } catch {
+      // The socket is already gone
+    }
+    connection = {};
+  }
+
+  function scheduleReconnect(error: unknown) {
+    if (stopped || reconnectTimer) {
+      return;
+    }
+    disconnect();
+    attempt++;
+    const delayMs = backoffDelay(attempt, reconnect);
+    handlers.onStatus?.(
+      `Connection lost (${errorMessage(error)}), reconnecting in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt})`
+    );
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      void connect();
+    }, delayMs);
+  }
+
+  async function connect() {
+    try {
+      const client = createClient();
+      // Subscribe before catching up so no change falls between the two
+      connection.unsubscribe = await client.subscribeEntityEvents({
+        onEntityCreated: ({ entityKey }) => enqueue(client, 'created', entityKey),
+        onEntityUpdated: ({ entityKey }) => enqueue(client, 'updated', entityKey),
+        onEntityDeleted: ({ entityKey }) => enqueue(client, 'deleted', entityKey),
+        onEntityExpired: ({ entityKey }) => enqueue(client, 'expired', entityKey),
+        onError: scheduleReconnect,
+      });
+
+      const head = await client.getBlockNumber();
+      if (syncedBlock !== undefined && head >= syncedBlock) {
+        const missed = head - syncedBlock + 1n;
+        handlers.onStatus?.(`Reconnected, catching up on ${missed} block(s)`);
+        const replay = pending.then(() => catchUp(client, syncedBlock!, head));
+        pending = replay.catch(() => undefined);
+        await replay;
+      } else {
+        handlers.onStatus?.(`Connected at block ${head}`);
+      }
+      syncedBlock = head;
+      attempt = 0;
+
+      // A failed check means the socket is dead even if no error was reported
+      let checkedBlock = head;
+      connection.heartbeat = setInterval(() => {
+        client
+          .getBlockNumber()
+          .then((block) => {
+            // Changes up to the previous check have arrived by now
+            syncedBlock = checkedBlock;
+            checkedBlock = block;
+          })
+          .catch(scheduleReconnect);
+      }, heartbeatMs);
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        // Reconnecting cannot fix the configuration
+        stopped = true;
+        disconnect();
+        fail(error);
+        return;
+      }
+      scheduleReconnect(error);
+    }
+  }
+
+  void connect();
+
+  return {
+    failed,
+    async stop() {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      disconnect();
+      await pending;
+    },
+  };
+}
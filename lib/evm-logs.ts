@@ -0,0 +1,165 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { formatUnits, toQuantity, type JsonRpcProvider } from 'ethers';
+import { z } from 'zod';
+import type { NetworkId } from './networks';
+import { formatAmount } from './simulation';
+import type { TokenInfo } from './tokens';
+
+// ============================================================================
+// EVM LOGS
+// ============================================================================
+//
+// Real protocol events, as the logs a chain emits: read from a log file or
+// fetched from a JSON-RPC endpoint (a node, or a local anvil fork), in the
+// format eth_getLogs returns them. The protocol plugins that can decode logs
+// (lib/protocols/) map them into the events the generators make, with what
+// lib/log-ingest.ts hands them: the decoded arguments, the tokens behind
+// addresses and USD values.
+
+const quantitySchema = z.string().regex(/^0x[0-9a-fA-F]+$/, 'expected a hex quantity');
+const hexSchema = z.string().regex(/^0x[0-9a-fA-F]*$/, 'expected hex data');
+
+// A log as eth_getLogs returns it, quantities as hex strings. Log files hold
+// an array of them, with the `blockTimestamp` some nodes add to each log;
+// other fields (blockHash, transactionIndex) are kept as they are.
+export const rawLogSchema = z.looseObject({
+  address: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'expected a 20-byte hex address'),
+  topics: z.array(hexSchema).min(1),
+  data: hexSchema,
+  blockNumber: quantitySchema,
+  transactionHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'expected a 32-byte transaction hash'),
+  logIndex: quantitySchema,
+  blockTimestamp: quantitySchema.optional(),
+  // Logs of blocks dropped by a reorg
+  removed: z.boolean().optional(),
+});
+
+export type RawLog = z.infer<typeof rawLogSchema>;
+
+// A log of a protocol event, decoded with the ABI of its contract
+export interface DecodedLog {
+  // Event name, e.g. 'Supply'
+  name: string;
+  // Event arguments by name; integers are bigints
+  args: Record<string, unknown>;
+  // Contract that emitted it
+  address: string;
+  // The fields every protocol event takes from its log
+  network: NetworkId;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  timestamp: string;
+}
+
+// What a plugin maps decoded logs with; a log it cannot map (an unknown
+// token, an asset without a price) throws an UnmappedLogError
+export interface LogContext {
+  // The token at `address`: a known one, or read from the chain when connected
+  token(address: string): Promise<TokenInfo>;
+  // Result of a view function of a contract, e.g. 'function fee() view returns (uint24)'
+  call(address: string, fragment: string): Promise<unknown>;
+  // USD value of `amount` at the reference price of `asset` (the scenario price)
+  calculateUSD(amount: string, asset: string): string;
+}
+
+/** A log that is a protocol event, but not one that can be stored. */
+export class UnmappedLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnmappedLogError';
+  }
+}
+
+/**
+ * A raw token amount in token units, formatted like generated amounts.
+ */
+export function formatTokenAmount(raw: bigint, token: TokenInfo): string {
+  return formatAmount(Number(formatUnits(raw, token.decimals)));
+}
+
+/**
+ * Read a log file: a JSON array of logs as eth_getLogs returns them.
+ */
+export async function readLogFile(path: string): Promise<RawLog[]> {
+  let content: unknown;
+  try {
+    content = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`${path}: not valid JSON (${error.message})`);
+    }
+    throw error;
+  }
+
+  const result = z.array(rawLogSchema).safeParse(content);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const where = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new Error(`${path}: not a log file${where}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Record logs to a log file that readLogFile() reads back.
+ */
+export async function writeLogFile(path: string, logs: RawLog[]): Promise<void> {
+  await writeFile(path, JSON.stringify(logs, null, 2) + '\n', 'utf8');
+}
+
+export interface LogFilter {
+  fromBlock: number;
+  toBlock: number;
+  // Logs of these contracts only; of any contract when missing
+  addresses?: string[];
+  // Any of these event topics (topic0)
+  topics: string[];
+}
+
+/**
+ * Fetch the logs matching `filter` from a JSON-RPC endpoint, `blockRange`
+ * blocks per request (endpoints limit the range of eth_getLogs), with the
+ * timestamp of their block.
+ */
+export async function* fetchLogs(
+  provider: JsonRpcProvider,
+  filter: LogFilter,
+  blockRange = 1_000
+): AsyncGenerator<RawLog> {
+  const blockTimestamps = new Map<number, string>();
+
+  for (let fromBlock = filter.fromBlock; fromBlock <= filter.toBlock; fromBlock += blockRange) {
+    const logs = await provider.getLogs({
+      fromBlock,
+      toBlock: Math.min(fromBlock + blockRange - 1, filter.toBlock),
+      address: filter.addresses,
+      topics: [filter.topics],
+    });
+
+    for (const log of logs) {
+      let blockTimestamp = blockTimestamps.get(log.blockNumber);
+      if (blockTimestamp === undefined) {
+        const block = await provider.getBlock(log.blockNumber);
+        if (!block) {
+          throw new Error(`Block ${log.blockNumber} of a log is not available`);
+        }
+        blockTimestamp = toQuantity(block.timestamp);
+        blockTimestamps.set(log.blockNumber, blockTimestamp);
+      }
+
+      yield {
+        address: log.address,
+        topics: [...log.topics],
+        data: log.data,
+        blockNumber: toQuantity(log.blockNumber),
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        transactionIndex: toQuantity(log.transactionIndex),
+        logIndex: toQuantity(log.index),
+        blockTimestamp,
+        removed: log.removed,
+      };
+    }
+  }
+}
@@ -0,0 +1,499 @@
+import type { CreateEntityParameters } from '@arkiv-network/sdk';
+import { createBackfillClock, parseBackfillRange, type BackfillClock } from './backfill';
+import { entityAttributes } from './attributes';
+import { createCheckpointTracker, loadCheckpoint } from './checkpoint';
+import { defineCommand, EXIT_CODES, UsageError } from './cli';
+import { arkivNetworkName, createArkivPublicClient, createArkivWalletClient } from './clients';
+import { appendDeadLetters, DEFAULT_DEAD_LETTER_PATH } from './dead-letters';
+import { encodePayload, PAYLOAD_ENCODINGS, type PayloadEncoding } from './encoding';
+import { createGenerator, type GeneratorState } from './generator';
+import { protocolPlugin, PROTOCOLS } from './protocols';
+import { createSeed, getSeed, seedRandom } from './random';
+import { DEFAULT_RETRY_POLICY } from './retry';
+import { createRunId, runTags, type RunTags } from './run-tags';
+import { loadScenario, ScenarioError, scenarioNetworks, type Scenario } from './scenario';
+import { validateEntity } from './schema';
+import {
+  createArkivSink,
+  createOfflineSink,
+  SINK_FLAGS,
+  type EntitySink,
+  type IfExists,
+} from './sinks';
+import type { GeneratedEntity } from './types';
+import { createWriteQueue, formatThroughput } from './write-queue';
+
+// ============================================================================
+// GENERATOR COMMANDS
+// ============================================================================
+//
+// The generate commands are presets over the same run: entities drawn from
+// lib/generator.ts, validated, tagged and queued for the sink, with a
+// checkpoint to resume from. A preset picks the default scenario and count,
+// the banner and the generatorVersion its entities are tagged with.
+
+export interface GeneratorPreset {
+  name: string;
+  summary: string;
+  description: string;
+  // Printed when a run starts
+  title: string;
+  // Tags the entities (generatorVersion, see lib/run-tags.ts)
+  version: string;
+  // Defaults of --count and --scenario
+  count: number;
+  scenario: string;
+  // Default delay between batches written to Arkiv (offline sinks have none)
+  arkivDelayMs: number;
+}
+
+// Everything needed to rerun or resume a run, stored in its checkpoint
+interface RunConfig {
+  // Kept across resumes, so a resumed run tags its entities like the original
+  runId: string;
+  // The whole scenario rather than its name, so a resume does not depend on the file
+  scenario: Scenario;
+  count: number;
+  delayMs: number;
+  seed: string;
+  syntheticClock: boolean;
+  // Backfill range (--from/--to), as given on the command line
+  from?: string;
+  to?: string;
+  sink: string;
+  out?: string;
+  // Idempotent writes to Arkiv (--if-exists)
+  ifExists?: IfExists;
+  encoding: PayloadEncoding;
+  batchSize: number;
+  concurrency: number;
+  maxAttempts: number;
+  deadLetters: string;
+}
+
+// Every pushed entity records the seed of its run so the dataset can be
+// regenerated, and the run tags so it can be found and purged
+type TaggedEntity = GeneratedEntity & { seed: string } & RunTags;
+
+// The settings the entities depend on, hashed into their configHash: where
+// and how they are written is left out, so reruns of a seed with other
+// transport settings tag them alike
+function entitySettings({
+  runId: _runId,
+  delayMs: _delayMs,
+  sink: _sink,
+  out: _out,
+  ifExists: _ifExists,
+  batchSize: _batchSize,
+  concurrency: _concurrency,
+  maxAttempts: _maxAttempts,
+  deadLetters: _deadLetters,
+  ...settings
+}: RunConfig) {
+  return settings;
+}
+
+// An invalid --scenario is a usage error like any other invalid flag
+async function scenarioFlag(nameOrPath: string): Promise<Scenario> {
+  try {
+    return await loadScenario(nameOrPath);
+  } catch (error) {
+    throw error instanceof ScenarioError ? new UsageError(error.message) : error;
+  }
+}
+
+/**
+ * A generate command running `preset`.
+ */
+export function generatorCommand(preset: GeneratorPreset) {
+  return defineCommand({
+    name: preset.name,
+    summary: preset.summary,
+    description: preset.description,
+    flags: {
+      count: {
+        type: 'integer',
+        value: 'n',
+        min: 1,
+        description: 'Events and snapshots to push; hourly summaries come on top',
+        default: preset.count,
+      },
+      delay: {
+        type: 'integer',
+        value: 'ms',
+        description: `Delay between batches (default: ${preset.arkivDelayMs} for arkiv, 0 for the other sinks)`,
+      },
+      seed: {
+        type: 'string',
+        description: 'Seed for a reproducible run (random when not given)',
+      },
+      scenario: {
+        type: 'string',
+        value: 'name|path',
+        description: 'Preset or JSON/YAML scenario file',
+        default: preset.scenario,
+      },
+      from: { type: 'string', value: 'date', description: 'Backfill a past period from this date' },
+      to: { type: 'string', value: 'date', description: 'End of the backfilled period' },
+      ...SINK_FLAGS,
+      encoding: {
+        type: 'string',
+        value: 'encoding',
+        description: 'Payload encoding',
+        choices: PAYLOAD_ENCODINGS,
+        default: 'json',
+      },
+      'batch-size': {
+        type: 'integer',
+        value: 'n',
+        min: 1,
+        description: 'Entities per transaction',
+        default: 1,
+      },
+      concurrency: {
+        type: 'integer',
+        value: 'n',
+        min: 1,
+        description: 'Transactions in flight',
+        default: 1,
+      },
+      'max-attempts': {
+        type: 'integer',
+        value: 'n',
+        min: 1,
+        description: 'Attempts per batch before its entities go to the dead letters',
+        default: DEFAULT_RETRY_POLICY.maxAttempts,
+      },
+      'dead-letters': {
+        type: 'string',
+        value: 'path',
+        description: 'File failed entities are saved to',
+        default: DEFAULT_DEAD_LETTER_PATH,
+      },
+      checkpoint: {
+        type: 'string',
+        value: 'path',
+        description: 'Checkpoint file (default: checkpoints/<seed>.json)',
+      },
+      resume: { type: 'string', value: 'checkpoint', description: 'Continue an interrupted run' },
+    },
+
+    async run({ flags }) {
+      // A resumed run takes its whole config from the checkpoint
+      const resumed = flags.resume
+        ? await loadCheckpoint<RunConfig, GeneratorState>(flags.resume)
+        : undefined;
+      const sinkKind = resumed?.config.sink ?? flags.sink;
+      const ifExists = resumed ? resumed.config.ifExists : flags['if-exists'];
+
+      let sink: EntitySink;
+
+      if (sinkKind === 'arkiv') {
+        console.log(`${preset.title}\n`);
+
+        // The public client is used for nonce lookups, and for natural keys in idempotent mode
+        const walletClient = createArkivWalletClient();
+        sink = createArkivSink(walletClient, createArkivPublicClient(), { ifExists });
+
+        console.log(`✅ Connected to ${arkivNetworkName()}`);
+        console.log(`📍 Account: ${walletClient.account?.address}`);
+        if (ifExists) {
+          console.log(
+            `🔑 Idempotent: entities already stored are ${ifExists === 'skip' ? 'skipped' : 'updated'}`
+          );
+        }
+        console.log('');
+      } else if (ifExists) {
+        throw new UsageError('--if-exists only applies to the arkiv sink');
+      } else {
+        sink = createOfflineSink(sinkKind, resumed?.config.out ?? flags.out, resumed !== undefined);
+      }
+
+      // Keep stdout clean for the records when the stdout sink is in use
+      const log = sink.usesStdout ? console.error : console.log;
+
+      if (sink.name !== 'arkiv') {
+        log(`${preset.title}\n`);
+        log(`📁 Writing to ${sink.name} (no network)\n`);
+      }
+      log('📊 Starting enhanced event generation...\n');
+      log('📦 Generating: Protocol Events, Aggregated Metrics, Price Snapshots\n');
+
+      let config: RunConfig;
+      let checkpointPath: string;
+
+      if (resumed) {
+        config = resumed.config;
+        checkpointPath = flags.resume!;
+        if (resumed.completed) {
+          log(`✅ Checkpoint ${checkpointPath} belongs to a completed run, nothing to resume`);
+          return;
+        }
+      } else {
+        const seed = flags.seed ?? createSeed();
+        config = {
+          runId: createRunId(),
+          scenario: await scenarioFlag(flags.scenario),
+          count: flags.count,
+          // Offline sinks have no rate limit to respect, so they default to no delay
+          delayMs: flags.delay ?? (sink.name === 'arkiv' ? preset.arkivDelayMs : 0),
+          // An explicit seed makes the run fully reproducible, including timestamps
+          seed,
+          syntheticClock: flags.seed !== undefined,
+          from: flags.from,
+          to: flags.to,
+          sink: sinkKind,
+          out: flags.out,
+          ifExists,
+          encoding: flags.encoding,
+          batchSize: flags['batch-size'],
+          concurrency: flags.concurrency,
+          maxAttempts: flags['max-attempts'],
+          deadLetters: flags['dead-letters'],
+        };
+        checkpointPath = flags.checkpoint ?? `checkpoints/${seed}.json`;
+      }
+
+      // Source networks of the protocol events
+      const sourceNetworks = scenarioNetworks(config.scenario).map(({ network }) => network);
+      let backfillClock: BackfillClock | undefined;
+      if (config.from !== undefined || config.to !== undefined) {
+        if (config.from === undefined || config.to === undefined) {
+          throw new UsageError('--from and --to must be given together');
+        }
+        backfillClock = createBackfillClock(
+          parseBackfillRange(config.from, config.to, sourceNetworks),
+          config.count
+        );
+      }
+
+      seedRandom(config.seed);
+      const generator = createGenerator(
+        config.scenario,
+        { syntheticClock: config.syntheticClock, backfill: backfillClock },
+        resumed?.state
+      );
+
+      const { count: maxEntities, delayMs, batchSize, concurrency } = config;
+      const retry = { ...DEFAULT_RETRY_POLICY, maxAttempts: config.maxAttempts };
+      const deadLetterPath = config.deadLetters;
+      const { runId } = config;
+      const tags = runTags(preset.version, runId, entitySettings(config));
+
+      const checkpoint = createCheckpointTracker(
+        checkpointPath,
+        resumed ?? { config, state: generator.getState() }
+      );
+      let entityCount = resumed?.confirmed.length ?? 0;
+
+      if (batchSize > 1 || concurrency > 1) {
+        log(
+          `Will generate ${maxEntities} entities in batches of ${batchSize} ` +
+            `(up to ${concurrency} in flight) with ${delayMs}ms delay between batches`
+        );
+      } else {
+        log(`Will generate ${maxEntities} entities with ${delayMs}ms delay between each`);
+      }
+      log('🕐 Plus one hourly summary per protocol and network for every hour the events cover');
+      if (backfillClock) {
+        log(`⏪ Backfilling ${config.from} .. ${config.to}`);
+        log(`🎲 Seed: ${getSeed()}`);
+      } else {
+        log(`🎲 Seed: ${getSeed()}${config.syntheticClock ? ' (synthetic clock)' : ''}`);
+      }
+      log(`🎭 Scenario: ${config.scenario.name}`);
+      const { population } = config.scenario;
+      if (population) {
+        log(
+          `👥 Users: ${population.size} (plus ${population.liquidators} liquidator bots and ${population.arbitrageurs} arbitrageurs)`
+        );
+      }
+      if (sourceNetworks.length > 1) {
+        log(`🌐 Networks: ${sourceNetworks.map(({ name }) => name).join(', ')}`);
+      }
+      log(`🏷️  Run: ${runId} (config ${tags.configHash})`);
+      if (resumed) {
+        log(
+          `⏩ Resuming from entity #${checkpoint.resumeIndex + 1} (${entityCount} already written)`
+        );
+      }
+      log(`💾 Checkpoint: ${checkpointPath}\n`);
+
+      // Statistics
+      const stats = {
+        protocolEvents: 0,
+        aggregatedMetrics: 0,
+        priceSnapshots: 0,
+        byProtocol: Object.fromEntries(PROTOCOLS.map(({ id }) => [id, 0])),
+        byNetwork: Object.fromEntries(sourceNetworks.map(({ id }) => [id, 0])),
+        // Found under their natural key in idempotent mode
+        existing: { skip: 0, update: 0 },
+        // Entities that could not be generated or failed validation
+        invalid: 0,
+        payloadBytes: 0,
+      };
+
+      const queue = createWriteQueue<{ index: number; entity: TaggedEntity; bytes: number }>(sink, {
+        batchSize,
+        concurrency,
+        retry,
+        onConfirmed({ index, entity, bytes }, { entityKey, txHash, existing }) {
+          entityCount++;
+          stats.payloadBytes += bytes;
+          checkpoint.confirm(index, { entityKey, txHash });
+
+          // Update statistics
+          if ('eventType' in entity) {
+            stats.protocolEvents++;
+            stats.byProtocol[entity.protocol]++;
+            stats.byNetwork[entity.network]++;
+            const { asset } = protocolPlugin(entity.protocol).describe(entity);
+            log(`✅ Entity #${entityCount}: ${entity.protocol} ${entity.eventType} | ${asset}`);
+          } else if ('metricType' in entity) {
+            stats.aggregatedMetrics++;
+            log(
+              `✅ Entity #${entityCount}: Hourly Summary | ${entity.protocol} | $${entity.totalVolumeUSD}`
+            );
+          } else if ('snapshotType' in entity) {
+            stats.priceSnapshots++;
+            log(
+              `✅ Entity #${entityCount}: Price Snapshot | ${entity.asset} | $${entity.priceUSD}`
+            );
+          }
+
+          if (existing) {
+            stats.existing[existing]++;
+            log(`   Already stored, ${existing === 'skip' ? 'skipped' : 'updated'}`);
+          }
+          if (entityKey && txHash) {
+            log(`   Entity Key: ${entityKey.slice(0, 20)}...`);
+            log(`   Tx Hash: ${txHash.slice(0, 20)}...`);
+          }
+          log('');
+        },
+        onRetry(entities, attempt, delayMs, { reason }) {
+          console.error(
+            `⚠️  Retrying ${entities.length} entity(ies) in ${delayMs}ms (${reason}, attempt ${attempt} failed)`
+          );
+        },
+        async onFailed(failed, error) {
+          console.error(`❌ Error writing ${failed.length} entity(ies):`, error);
+          // Keep the entities so the run can be completed with replay-dead-letters
+          await appendDeadLetters(
+            deadLetterPath,
+            failed.map(({ entity }) => entity),
+            error
+          );
+          failed.forEach(({ item }) => checkpoint.deadLetter(item.index));
+          console.error(`   Saved to dead-letter file ${deadLetterPath}`);
+        },
+      });
+
+      for (let i = checkpoint.resumeIndex; ; i++) {
+        // Backfills generate `count` events and snapshots to spread over their
+        // range; the hourly summaries of the range come on top
+        const generated = generator.next(
+          backfillClock ? generator.backfilled() < maxEntities : i < maxEntities
+        );
+        if (!generated) {
+          break;
+        }
+
+        checkpoint.snapshot(i + 1, generator.getState());
+
+        // Written before the interruption; regenerated only to advance the generator state
+        if (checkpoint.isSettled(i)) {
+          continue;
+        }
+
+        const tagged = { ...generated, seed: getSeed(), ...tags };
+        let params: CreateEntityParameters;
+        let item: { index: number; entity: TaggedEntity; bytes: number };
+        try {
+          // Invalid entities never reach the sink; the error lists what is wrong
+          const entity = validateEntity<TaggedEntity>(tagged);
+
+          // Indexed fields as attributes (numbers and amounts as numeric ones)
+          const attributes = entityAttributes(entity);
+
+          // Create entity payload in the configured encoding
+          const { payload, contentType, attribute } = encodePayload(entity, config.encoding);
+          params = {
+            payload,
+            contentType,
+            attributes: [...attributes, attribute],
+            expiresIn: 10000, // Expire after 10000 blocks
+          };
+          item = { index: i, entity, bytes: payload.length };
+        } catch (error) {
+          // Skipped, but counted: a run missing entities must not report success
+          stats.invalid++;
+          console.error(`❌ Error generating entity #${i + 1}:`, error);
+          // Dead-lettered with the error, so resuming moves past it
+          const { payload, contentType, attribute } = encodePayload(tagged, 'json');
+          await appendDeadLetters(
+            deadLetterPath,
+            [{ payload, contentType, attributes: [attribute], expiresIn: 10000 }],
+            error
+          );
+          checkpoint.deadLetter(i);
+          continue;
+        }
+
+        // Queue the entity for the configured sink (Arkiv by default)
+        const dispatched = await queue.push(params, item);
+
+        // Wait before next batch
+        if (dispatched && delayMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+      }
+
+      await queue.drain();
+      await sink.close();
+      await checkpoint.flush(true);
+
+      log(`\n🎉 Generation complete! Pushed ${entityCount} entities to ${sink.name}\n`);
+      log('📊 Statistics:');
+      log(`   Protocol Events: ${stats.protocolEvents}`);
+      for (const { id, name } of PROTOCOLS) {
+        log(`     - ${name}: ${stats.byProtocol[id]}`);
+      }
+      if (sourceNetworks.length > 1) {
+        for (const { id, name } of sourceNetworks) {
+          log(`     - on ${name}: ${stats.byNetwork[id]}`);
+        }
+      }
+      log(`   Aggregated Metrics: ${stats.aggregatedMetrics}`);
+      log(`   Price Snapshots: ${stats.priceSnapshots}`);
+      if (config.ifExists) {
+        log(`   Already stored: ${stats.existing.skip} skipped, ${stats.existing.update} updated`);
+      }
+      if (stats.invalid > 0) {
+        log(
+          `   Not generated: ${stats.invalid} (invalid, see the errors above and ${deadLetterPath})`
+        );
+      }
+      if (queue.stats.failed > 0) {
+        log(
+          `   Failed: ${queue.stats.failed} (see ${deadLetterPath}, re-submit with replay:dead-letters)`
+        );
+      }
+      log(`   Throughput: ${formatThroughput(queue.stats)}`);
+      if (queue.stats.confirmed > 0) {
+        log(
+          `   Payload size: ${Math.round(stats.payloadBytes / queue.stats.confirmed)} bytes/entity (${config.encoding})`
+        );
+      }
+      log('\n💡 Next steps:');
+      log('   - Query events by protocol, entity type, or time period');
+      log('   - Build charts from aggregated metrics');
+      log('   - Calculate USD values using price snapshots');
+      log('   - Filter events by asset, user, or event type');
+      if (stats.invalid > 0 && queue.stats.confirmed + queue.stats.failed === 0) {
+        return EXIT_CODES.failed;
+      }
+      return queue.stats.failed > 0 || stats.invalid > 0 ? EXIT_CODES.partial : EXIT_CODES.ok;
+    },
+  });
+}
@@ -0,0 +1,287 @@
+import { BLOCK_TIME_MS, blockAt, timeOfBlock, type BackfillClock } from './backfill';
+import { createHourlySummaries, type HourlySummaryState } from './hourly-summaries';
+import { networkBlockAt } from './networks';
+import { createPriceSimulator, type PriceSimulatorState } from './price-simulator';
+import { protocolPlugin, type ProtocolId } from './protocols';
+import type { BaseProtocolEvent, ProtocolSimulation } from './protocols/plugin';
+import { getRandomState, random, setRandomState, type RandomState } from './random';
+import {
+  eventWeights,
+  registerScenarioTokens,
+  scenarioMarkets,
+  scenarioNetworks,
+  type Scenario,
+} from './scenario';
+import {
+  generateTxHash,
+  randomElement,
+  weightedElement,
+  type SimulationContext,
+} from './simulation';
+import type { GeneratedEntity, PriceSnapshot, ProtocolEvent } from './types';
+import { createUserPopulation } from './users';
+
+// ============================================================================
+// ENTITY GENERATOR
+// ============================================================================
+//
+// The shared core of the generate commands: simulates the chain and the
+// market of a scenario and draws entities from it. Protocol events come from
+// the simulations of the registered protocol plugins (lib/protocols/), one
+// per source network the protocol is on, price snapshots from the simulated
+// prices, and hourly summaries are slotted in as the hours they cover close.
+// Prices and the clock are shared by all networks: the clock counts Ethereum
+// blocks, and events of other networks get their network's block at its time.
+// Like on a real chain a transaction may emit several events: an event can be
+// the next log of the transaction of the event just before it.
+
+// Seeded runs use a synthetic clock (one block every 12s from a fixed start)
+// so that timestamps are reproducible along with everything else
+const SYNTHETIC_START_TIME = Date.UTC(2024, 0, 1);
+
+// Chance that an event following an event on its network is another log of
+// that event's transaction (a liquidation and the swap of its collateral, a
+// multicall of an aggregator...)
+const SAME_TRANSACTION_RATE = 0.1;
+
+// A log of a generated transaction; `block` is the clock block it is in
+interface TransactionLog {
+  network: string;
+  block: number;
+  txHash: string;
+  logIndex: number;
+}
+
+// Generator state saved in checkpoints so an interrupted run can continue exactly
+export interface GeneratorState {
+  random: RandomState;
+  startBlock: number;
+  currentBlock: number;
+  syntheticClock: boolean;
+  backfillIndex: number;
+  prices: PriceSimulatorState;
+  // State of each protocol simulation, by network and protocol id
+  networks: Record<string, Record<string, unknown>>;
+  hourlySummaries: HourlySummaryState;
+  pendingEntities: GeneratedEntity[];
+  // Last log of the last entity generated, when it was an event
+  lastLog: TransactionLog | null;
+}
+
+export interface GeneratorOptions {
+  // Timestamps from the synthetic clock instead of the current time
+  syntheticClock: boolean;
+  // Backfill runs (--from/--to) place their entities over a past time range
+  // instead; the block of each entity comes from its position in the run
+  backfill?: BackfillClock;
+}
+
+export interface EntityGenerator {
+  // Next entity to push, with the hourly summaries slotted in as their
+  // windows close. Once `generate` is false no new entities are made; the
+  // remaining ones and the summaries of the hours still open are handed out
+  // until none are left.
+  next(generate: boolean): GeneratedEntity | undefined;
+  // Events and snapshots placed in the backfill range so far
+  backfilled(): number;
+  getState(): GeneratorState;
+}
+
+function formatPrice(price: number): string {
+  // Keep stablecoin depegs and cheap tokens visible
+  return price.toFixed(price < 10 ? 4 : 2);
+}
+
+/**
+ * Generate the entities of `scenario`, starting a new run or continuing from
+ * a saved state. The PRNG must already be seeded with the run's seed.
+ */
+export function createGenerator(
+  scenario: Scenario,
+  { syntheticClock, backfill }: GeneratorOptions,
+  state?: GeneratorState
+): EntityGenerator {
+  registerScenarioTokens(scenario);
+  // Every asset, for price snapshots
+  const assets = Object.keys(scenario.assets);
+  const prices = createPriceSimulator(scenarioMarkets(scenario), state?.prices);
+  // Hourly summaries are computed from the protocol events as they are generated
+  const hourlySummaries = createHourlySummaries(state?.hourlySummaries);
+  // Entities generated but not handed out yet (an event that starts a new hour
+  // is preceded by the summaries of the hour that just closed)
+  const pendingEntities: GeneratedEntity[] = [...(state?.pendingEntities ?? [])];
+
+  // Block numbers start at the mainnet block of the run's start time
+  const useSyntheticClock = state?.syntheticClock ?? syntheticClock;
+  const startBlock =
+    state?.startBlock ?? blockAt(useSyntheticClock ? SYNTHETIC_START_TIME : Date.now());
+  let currentBlock = state?.currentBlock ?? startBlock;
+  let backfillIndex = state?.backfillIndex ?? 0;
+  if (state) {
+    setRandomState(state.random);
+  }
+
+  let lastLog = state?.lastLog ?? undefined;
+  // The log the current event may follow in its transaction, and the one it follows
+  let previousLog: TransactionLog | undefined;
+  let joinedLog: TransactionLog | undefined;
+
+  function currentTime(): Date {
+    if (backfill) {
+      return new Date(timeOfBlock(currentBlock));
+    }
+    if (useSyntheticClock) {
+      return new Date(SYNTHETIC_START_TIME + (currentBlock - startBlock) * BLOCK_TIME_MS);
+    }
+    return new Date();
+  }
+
+  // Users are the same on every network
+  const users = createUserPopulation(scenario);
+  // Networks with a share of the events, and the protocols of the mix on each
+  const networks = scenarioNetworks(scenario);
+  const networkStates = state?.networks ?? {};
+  // Simulation of every protocol on every network it is on, by network and protocol id
+  const simulations: Record<string, Record<string, ProtocolSimulation<BaseProtocolEvent>>> = {};
+  for (const { network, scenario: networkScenario, protocols } of networks) {
+    const context: SimulationContext = {
+      network: network.id,
+      scenario: networkScenario,
+      prices,
+      nextBlock() {
+        joinedLog =
+          previousLog?.network === network.id && random() < SAME_TRANSACTION_RATE
+            ? previousLog
+            : undefined;
+        if (joinedLog) {
+          // Back to its block, should an event that did not happen have moved on
+          currentBlock = joinedLog.block;
+        } else if (!backfill) {
+          currentBlock += Math.floor(random() * 5) + 1;
+        }
+        // The clock counts Ethereum blocks
+        return network.id === 'ethereum'
+          ? currentBlock
+          : networkBlockAt(network, currentTime().getTime());
+      },
+      nextLog() {
+        lastLog = joinedLog
+          ? { ...joinedLog, logIndex: joinedLog.logIndex + 1 }
+          : { network: network.id, block: currentBlock, txHash: generateTxHash(), logIndex: 0 };
+        return { txHash: lastLog.txHash, logIndex: lastLog.logIndex };
+      },
+      timestamp() {
+        return currentTime().toISOString();
+      },
+      randomUser(action) {
+        return users.pick(action);
+      },
+      calculateUSD(amount, asset, timestamp) {
+        const amountNum = parseFloat(amount);
+        return (amountNum * prices.priceAt(asset, timestamp)).toFixed(2);
+      },
+    };
+    simulations[network.id] = {};
+    for (const id of protocols) {
+      simulations[network.id][id] = protocolPlugin(id).createSimulation(
+        context,
+        networkStates[network.id]?.[id]
+      );
+    }
+  }
+
+  // The simulation of `protocol` on the network of its next event, picked by
+  // the network weights; single-network runs draw nothing for it
+  function simulationOf(protocol: ProtocolId): ProtocolSimulation<BaseProtocolEvent> {
+    const candidates = networks.filter(({ protocols }) => protocols.includes(protocol));
+    const { network } = candidates.length === 1 ? candidates[0] : weightedElement(candidates);
+    return simulations[network.id][protocol];
+  }
+
+  function generatePriceSnapshot(asset: string): PriceSnapshot {
+    const timestamp = currentTime().toISOString();
+    const price = prices.priceAt(asset, timestamp);
+
+    return {
+      entityType: 'price_snapshot',
+      snapshotType: 'price_snapshot',
+      asset,
+      priceUSD: formatPrice(price),
+      timestamp,
+      change24h: (prices.change24h(asset, timestamp) * 100).toFixed(2) + '%',
+      volume24hUSD: prices.volume24h(asset, timestamp).toFixed(2),
+      marketCapUSD: prices.marketCap(asset, timestamp).toFixed(2),
+    };
+  }
+
+  // Add the USD amounts an event moved to the 24h volume of each asset involved
+  function recordEventVolume(event: ProtocolEvent): void {
+    for (const { asset, usd } of protocolPlugin(event.protocol).tradedVolume(event)) {
+      prices.recordVolume(asset, event.timestamp, parseFloat(usd));
+    }
+  }
+
+  function generateRandomEntity(): GeneratedEntity {
+    // Called once per generated entity, before its generator runs
+    if (backfill) {
+      currentBlock = backfill.blockOf(backfillIndex++);
+    }
+    previousLog = lastLog;
+    lastLog = undefined;
+
+    const entityGenerators = [
+      // Protocol events, by the weights of the scenario
+      ...eventWeights(scenario).map(({ protocol, eventType, weight }) => ({
+        weight,
+        generator: () => simulationOf(protocol).generate(eventType) as ProtocolEvent,
+      })),
+
+      // Price snapshots
+      {
+        weight: scenario.mix.price_snapshot,
+        generator: () => generatePriceSnapshot(randomElement(assets)),
+      },
+    ].filter(({ weight }) => weight > 0);
+
+    return weightedElement(entityGenerators).generator();
+  }
+
+  return {
+    next(generate) {
+      if (!generate) {
+        pendingEntities.push(...hourlySummaries.closeAll());
+      } else if (pendingEntities.length === 0) {
+        const entity = generateRandomEntity();
+        if ('eventType' in entity) {
+          recordEventVolume(entity);
+        }
+        pendingEntities.push(...hourlySummaries.observe(entity), entity);
+      }
+      return pendingEntities.shift();
+    },
+    backfilled() {
+      return backfillIndex;
+    },
+    getState() {
+      const networkStates: GeneratorState['networks'] = {};
+      for (const [network, protocols] of Object.entries(simulations)) {
+        networkStates[network] = {};
+        for (const [id, simulation] of Object.entries(protocols)) {
+          networkStates[network][id] = simulation.getState();
+        }
+      }
+      return {
+        random: getRandomState(),
+        startBlock,
+        currentBlock,
+        syntheticClock: useSyntheticClock,
+        backfillIndex,
+        prices: prices.getState(),
+        networks: networkStates,
+        hourlySummaries: hourlySummaries.getState(),
+        pendingEntities: [...pendingEntities],
+        lastLog: lastLog ?? null,
+      };
+    },
+  };
+}
@@ -0,0 +1,160 @@
+import { protocolPlugin } from './protocols';
+import type { AssetVolume } from './protocols/plugin';
+import type { AggregatedMetric, GeneratedEntity, ProtocolEvent, ProtocolType } from './types';
+
+// ============================================================================
+// HOURLY SUMMARIES
+// ============================================================================
+//
+// Builds the hourly_summary metrics from the protocol events a run actually
+// emits, one window per protocol, source network and UTC hour. Windows are closed (and their
+// summaries returned) as soon as the generator moves past their hour, so a
+// summary always follows the events it covers. Amounts are summed in cents so
+// the totals match the 2-decimal amountUSD strings of the events exactly.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface SummaryWindow {
+  protocol: ProtocolType;
+  network: string;
+  hourStart: number;
+  volumeCents: number;
+  // Distinct transactions of the events: one transaction can emit several
+  txHashes: string[];
+  // Events that added volume (the average transaction size is taken over these)
+  volumeCount: number;
+  users: string[];
+  assetVolumeCents: Record<string, number>;
+  eventTypeCounts: Record<string, number>;
+}
+
+// Open windows, saved in checkpoints
+export type HourlySummaryState = SummaryWindow[];
+
+export interface HourlySummaries {
+  // Account for a generated entity; returns the summaries of the windows it closed
+  observe(entity: GeneratedEntity): AggregatedMetric[];
+  // Close every open window, e.g. at the end of a run
+  closeAll(): AggregatedMetric[];
+  getState(): HourlySummaryState;
+}
+
+export function toCents(usd: string): number {
+  return Math.round(parseFloat(usd) * 100);
+}
+
+export function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Who made the event and the volume it adds, in the asset it is denominated
+// in, as its protocol plugin counts it: e.g. swaps count their input side and
+// liquidations the debt covered, in the debt asset, while Uniswap liquidity
+// changes (Mint/Burn/Collect) add no volume.
+export function eventContribution(event: ProtocolEvent): {
+  user: string;
+  volume?: AssetVolume;
+} {
+  return protocolPlugin(event.protocol).contribution(event);
+}
+
+function toSummary(window: SummaryWindow): AggregatedMetric {
+  const assetVolumes: Record<string, string> = {};
+  for (const [asset, cents] of Object.entries(window.assetVolumeCents)) {
+    assetVolumes[asset] = formatCents(cents);
+  }
+
+  return {
+    entityType: 'aggregated_metric',
+    metricType: 'hourly_summary',
+    protocol: window.protocol,
+    network: window.network,
+    timeWindow: '1h',
+    timestamp: new Date(window.hourStart).toISOString(),
+    totalVolumeUSD: formatCents(window.volumeCents),
+    transactionCount: window.txHashes.length,
+    uniqueUsers: window.users.length,
+    assetVolumes,
+    eventTypeCounts: { ...window.eventTypeCounts },
+    avgTransactionSizeUSD: formatCents(
+      window.volumeCount > 0 ? Math.round(window.volumeCents / window.volumeCount) : 0
+    ),
+  };
+}
+
+/**
+ * Accumulate hourly summaries, starting empty or from a saved state.
+ */
+export function createHourlySummaries(state: HourlySummaryState = []): HourlySummaries {
+  let windows = structuredClone(state);
+
+  // Close the windows whose hour ends at or before `hourStart`, oldest first
+  function closeBefore(hourStart: number): AggregatedMetric[] {
+    const closed = windows.filter((window) => window.hourStart < hourStart);
+    windows = windows.filter((window) => window.hourStart >= hourStart);
+    return closed
+      .sort(
+        (a, b) =>
+          a.hourStart - b.hourStart ||
+          a.protocol.localeCompare(b.protocol) ||
+          a.network.localeCompare(b.network)
+      )
+      .map(toSummary);
+  }
+
+  return {
+    observe(entity) {
+      const time = Date.parse(entity.timestamp);
+      const hourStart = time - (time % HOUR_MS);
+      const closed = closeBefore(hourStart);
+
+      if ('eventType' in entity) {
+        let window = windows.find(
+          (open) =>
+            open.protocol === entity.protocol &&
+            open.network === entity.network &&
+            open.hourStart === hourStart
+        );
+        if (!window) {
+          window = {
+            protocol: entity.protocol,
+            network: entity.network,
+            hourStart,
+            volumeCents: 0,
+            txHashes: [],
+            volumeCount: 0,
+            users: [],
+            assetVolumeCents: {},
+            eventTypeCounts: {},
+          };
+          windows.push(window);
+        }
+
+        const { user, volume } = eventContribution(entity);
+        if (!window.txHashes.includes(entity.txHash)) {
+          window.txHashes.push(entity.txHash);
+        }
+        if (!window.users.includes(user)) {
+          window.users.push(user);
+        }
+        if (volume) {
+          const cents = toCents(volume.usd);
+          window.volumeCents += cents;
+          window.volumeCount++;
+          window.assetVolumeCents[volume.asset] =
+            (window.assetVolumeCents[volume.asset] ?? 0) + cents;
+        }
+        window.eventTypeCounts[entity.eventType] =
+          (window.eventTypeCounts[entity.eventType] ?? 0) + 1;
+      }
+
+      return closed;
+    },
+    closeAll() {
+      return closeBefore(Infinity);
+    },
+    getState() {
+      return structuredClone(windows);
+    },
+  };
+}
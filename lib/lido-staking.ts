@@ -0,0 +1,145 @@
+// ============================================================================
+// LIDO STAKING POOL
+// ============================================================================
+//
+// Tracks the Lido pool: the ether staked, the stETH shares issued for it and
+// the withdrawal queue. stETH balances are shares × pooled ether / total
+// shares, so staking rewards (accrued at the scenario's APR) raise every
+// holder's balance without moving shares. Withdrawal requests lock the stETH
+// requested and can be claimed for the same amount of ether once finalized,
+// a fixed delay after the request.
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Balances below this are rounding leftovers and are dropped
+const DUST = 1e-12;
+
+export interface LidoConfig {
+  // Staking reward rate, e.g. 0.035 for 3.5% a year
+  apr: number;
+  // Hours between a withdrawal request and its finalization
+  finalizationHours: number;
+}
+
+export interface WithdrawalRequest {
+  requestId: number;
+  owner: string;
+  amountOfStETH: number;
+  amountOfShares: number;
+  // When the request was made, in ms since the epoch
+  requestedAt: number;
+}
+
+// Pool totals, shares by holder and unclaimed requests, saved in checkpoints
+export interface LidoStakingState {
+  totalPooledEther: number;
+  totalShares: number;
+  shares: Record<string, number>;
+  requests: WithdrawalRequest[];
+  lastRequestId: number;
+  // Rewards are accrued up to this time, in ms since the epoch
+  accruedAt: number | null;
+}
+
+export interface LidoStaking {
+  // Accrue rewards up to `timestamp`; call before anything else at that time
+  accrue(timestamp: string): void;
+  // Holders with any stETH
+  holders(): string[];
+  balanceOf(user: string): number;
+  // Stake ether; returns the shares minted
+  submit(user: string, amount: number): number;
+  // Lock `amount` stETH of `user` in a withdrawal request for `owner`
+  requestWithdrawal(
+    user: string,
+    owner: string,
+    amount: number,
+    timestamp: string
+  ): WithdrawalRequest;
+  // Unclaimed requests finalized by `timestamp`
+  claimable(timestamp: string): WithdrawalRequest[];
+  // Claim a finalized request; returns the ether paid out
+  claim(requestId: number): number;
+  getState(): LidoStakingState;
+}
+
+/**
+ * Keep the Lido pool, starting empty or from a saved state.
+ */
+export function createLidoStaking(
+  config: LidoConfig,
+  state: LidoStakingState = {
+    totalPooledEther: 0,
+    totalShares: 0,
+    shares: {},
+    requests: [],
+    lastRequestId: 0,
+    accruedAt: null,
+  }
+): LidoStaking {
+  const pool: LidoStakingState = structuredClone(state);
+
+  function balanceOf(user: string): number {
+    return pool.totalShares > 0
+      ? ((pool.shares[user] ?? 0) * pool.totalPooledEther) / pool.totalShares
+      : 0;
+  }
+
+  return {
+    accrue(timestamp) {
+      const time = Date.parse(timestamp);
+      if (pool.accruedAt !== null && time > pool.accruedAt) {
+        pool.totalPooledEther *= (1 + config.apr) ** ((time - pool.accruedAt) / YEAR_MS);
+      }
+      pool.accruedAt = Math.max(pool.accruedAt ?? time, time);
+    },
+    holders() {
+      return Object.keys(pool.shares);
+    },
+    balanceOf,
+    submit(user, amount) {
+      const shares =
+        pool.totalShares > 0 ? (amount * pool.totalShares) / pool.totalPooledEther : amount;
+      pool.totalPooledEther += amount;
+      pool.totalShares += shares;
+      pool.shares[user] = (pool.shares[user] ?? 0) + shares;
+      return shares;
+    },
+    requestWithdrawal(user, owner, amount, timestamp) {
+      const held = pool.shares[user] ?? 0;
+      const shares = Math.min(held, (amount * pool.totalShares) / pool.totalPooledEther);
+      // The stETH leaves the pool now, so it earns no rewards while queued
+      pool.totalPooledEther -= amount;
+      pool.totalShares -= shares;
+      if (held - shares < DUST) {
+        delete pool.shares[user];
+      } else {
+        pool.shares[user] = held - shares;
+      }
+      const request: WithdrawalRequest = {
+        requestId: ++pool.lastRequestId,
+        owner,
+        amountOfStETH: amount,
+        amountOfShares: shares,
+        requestedAt: Date.parse(timestamp),
+      };
+      pool.requests.push(request);
+      return request;
+    },
+    claimable(timestamp) {
+      const finalizedBefore = Date.parse(timestamp) - config.finalizationHours * 60 * 60 * 1000;
+      return pool.requests.filter(({ requestedAt }) => requestedAt <= finalizedBefore);
+    },
+    claim(requestId) {
+      const index = pool.requests.findIndex((request) => request.requestId === requestId);
+      if (index < 0) {
+        throw new Error(`No unclaimed withdrawal request ${requestId}`);
+      }
+      const [request] = pool.requests.splice(index, 1);
+      return request.amountOfStETH;
+    },
+    getState() {
+      return structuredClone(pool);
+    },
+  };
+}
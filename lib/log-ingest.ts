@@ -0,0 +1,227 @@
+import { getAddress, Interface, type FunctionFragment, type JsonRpcProvider } from 'ethers';
+import {
+  UnmappedLogError,
+  type DecodedLog,
+  type LogContext,
+  type LogFilter,
+  type RawLog,
+} from './evm-logs';
+import { networkTimeOfBlock, type SourceNetwork } from './networks';
+import { PROTOCOLS } from './protocols';
+import type { ProtocolLogs } from './protocols/plugin';
+import { registerScenarioTokens, type Scenario } from './scenario';
+import { TOKENS, type TokenInfo } from './tokens';
+import type { ProtocolEvent } from './types';
+
+// ============================================================================
+// LOG INGESTION
+// ============================================================================
+//
+// Turns raw logs of a source network into protocol events. A log goes to the
+// plugin whose ABI has its event (and, for a protocol with a single contract
+// such as the Aave Pool, when that contract emitted it), is decoded with
+// ethers and mapped by the plugin. Tokens are the known ones (lib/tokens.ts,
+// with the scenario's) on Ethereum, whose addresses they have, and are read
+// from their ERC-20 contract elsewhere or when unknown; that, and reading
+// Uniswap pools other than those of known tokens, takes a node. Logs carry
+// no prices: USD values use the reference prices of the scenario's assets.
+
+export interface LogIngestOptions {
+  network: SourceNetwork;
+  // Reference prices and tokens
+  scenario: Scenario;
+  // A node to read unknown tokens and pools, and block timestamps, from
+  provider?: JsonRpcProvider;
+  // Take logs of these contracts only, instead of the protocols' own
+  addresses?: string[];
+}
+
+export interface LogIngester {
+  // Event topics and contracts to fetch the logs of a block range with
+  filter(fromBlock: number, toBlock: number): LogFilter;
+  // The protocol event of a log; undefined for logs of other events or
+  // contracts, an UnmappedLogError for events that cannot be mapped
+  ingest(log: RawLog): Promise<ProtocolEvent | undefined>;
+}
+
+interface LogDecoder {
+  logs: ProtocolLogs<ProtocolEvent>;
+  abi: Interface;
+  decode(log: DecodedLog): Promise<ProtocolEvent>;
+}
+
+const ERC20_SYMBOL = 'function symbol() view returns (string)';
+const ERC20_DECIMALS = 'function decimals() view returns (uint8)';
+
+/**
+ * Ingest the logs of `network`, for the protocols whose plugin decodes logs.
+ */
+export function createLogIngester({
+  network,
+  scenario,
+  provider,
+  addresses,
+}: LogIngestOptions): LogIngester {
+  registerScenarioTokens(scenario);
+
+  // Known tokens have their mainnet addresses
+  const knownTokens = new Map<string, TokenInfo>(
+    network.id === 'ethereum'
+      ? Object.values(TOKENS).map((token) => [token.address.toLowerCase(), token])
+      : []
+  );
+  const calls = new Map<string, Promise<unknown>>();
+  const tokens = new Map<string, Promise<TokenInfo>>();
+  const blockTimes = new Map<number, Promise<number>>();
+
+  const context: LogContext = {
+    call(address, fragment) {
+      const key = `${address.toLowerCase()} ${fragment}`;
+      if (!calls.has(key)) {
+        const abi = new Interface([fragment]);
+        const fn = abi.fragments[0] as FunctionFragment;
+        if (!provider) {
+          return Promise.reject(
+            new UnmappedLogError(`reading ${fn.name}() of ${address} takes a node (--rpc)`)
+          );
+        }
+        calls.set(
+          key,
+          provider
+            .call({ to: address, data: abi.encodeFunctionData(fn) })
+            .then((result) => abi.decodeFunctionResult(fn, result)[0])
+            .catch(() => {
+              throw new UnmappedLogError(`cannot read ${fn.name}() of ${address}`);
+            })
+        );
+      }
+      return calls.get(key)!;
+    },
+
+    token(address) {
+      const known = knownTokens.get(address.toLowerCase());
+      if (known) {
+        return Promise.resolve(known);
+      }
+      if (!provider) {
+        return Promise.reject(
+          new UnmappedLogError(`unknown token ${address} (reading it takes a node, --rpc)`)
+        );
+      }
+      const key = address.toLowerCase();
+      if (!tokens.has(key)) {
+        tokens.set(
+          key,
+          Promise.all([
+            context.call(address, ERC20_SYMBOL),
+            context.call(address, ERC20_DECIMALS),
+          ]).then(([symbol, decimals]) => ({
+            symbol: symbol as string,
+            address: getAddress(address) as `0x${string}`,
+            decimals: Number(decimals),
+          }))
+        );
+      }
+      return tokens.get(key)!;
+    },
+
+    calculateUSD(amount, asset) {
+      const price = scenario.assets[asset]?.price;
+      if (price === undefined) {
+        throw new UnmappedLogError(`no reference price for ${asset} in scenario ${scenario.name}`);
+      }
+      return (parseFloat(amount) * price).toFixed(2);
+    },
+  };
+
+  // Decoders of this ingester, so what they cache is for its network and scenario
+  const decoders: LogDecoder[] = PROTOCOLS.flatMap((plugin) => {
+    const logs = plugin.logs as ProtocolLogs<ProtocolEvent> | undefined;
+    return logs
+      ? [{ logs, abi: new Interface(logs.abi), decode: logs.createDecoder(context) }]
+      : [];
+  });
+  // The decoder of each event topic
+  const decoderByTopic = new Map<string, LogDecoder>();
+  for (const decoder of decoders) {
+    decoder.abi.forEachEvent(({ topicHash }) => decoderByTopic.set(topicHash, decoder));
+  }
+  const contracts = addresses?.map((address) => address.toLowerCase());
+
+  function fromContract({ logs }: LogDecoder, address: string): boolean {
+    if (contracts) {
+      return contracts.includes(address.toLowerCase());
+    }
+    const contract = logs.contracts?.[network.id];
+    return contract === undefined || contract.toLowerCase() === address.toLowerCase();
+  }
+
+  // Time of a log's block (ms since epoch): from the log, from the node, or
+  // from the block number at the network's block time
+  function blockTime(log: RawLog, blockNumber: number): Promise<number> {
+    if (log.blockTimestamp) {
+      return Promise.resolve(Number(log.blockTimestamp) * 1000);
+    }
+    if (!provider) {
+      return Promise.resolve(networkTimeOfBlock(network, blockNumber));
+    }
+    if (!blockTimes.has(blockNumber)) {
+      blockTimes.set(
+        blockNumber,
+        provider.getBlock(blockNumber).then((block) => {
+          if (!block) {
+            throw new Error(`Block ${blockNumber} of a log is not available`);
+          }
+          return block.timestamp * 1000;
+        })
+      );
+    }
+    return blockTimes.get(blockNumber)!;
+  }
+
+  return {
+    filter(fromBlock, toBlock) {
+      const protocolContracts = decoders.map(({ logs }) => logs.contracts?.[network.id]);
+      return {
+        fromBlock,
+        toBlock,
+        // Logs of any contract unless every protocol has its contract
+        addresses:
+          addresses ??
+          (protocolContracts.every((contract) => contract !== undefined)
+            ? (protocolContracts as string[])
+            : undefined),
+        topics: [...decoderByTopic.keys()],
+      };
+    },
+
+    async ingest(log) {
+      const decoder = decoderByTopic.get(log.topics[0].toLowerCase());
+      if (log.removed || !decoder || !fromContract(decoder, log.address)) {
+        return undefined;
+      }
+
+      let decoded;
+      try {
+        decoded = decoder.abi.parseLog({ topics: log.topics, data: log.data });
+      } catch (error) {
+        throw new UnmappedLogError(`cannot decode the log (${(error as Error).message})`);
+      }
+      if (!decoded) {
+        return undefined;
+      }
+
+      const blockNumber = Number(log.blockNumber);
+      return decoder.decode({
+        name: decoded.name,
+        args: decoded.args.toObject(),
+        address: getAddress(log.address),
+        network: network.id,
+        txHash: log.transactionHash.toLowerCase(),
+        logIndex: Number(log.logIndex),
+        blockNumber,
+        timestamp: new Date(await blockTime(log, blockNumber)).toISOString(),
+      });
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { Attribute } from '@arkiv-network/sdk';
+import { and, eq, type Predicate } from '@arkiv-network/sdk/query';
+import type { EntityType } from './types';
+
+// ============================================================================
+// NATURAL KEYS
+// ============================================================================
+//
+// What identifies a generated entity whatever Arkiv entity it is stored in, so
+// that a retried write or a rerun of the same seed can find the copy already
+// stored instead of adding a second one (see the idempotent mode of the Arkiv
+// sink, lib/sinks.ts). A protocol event is a log of a transaction on its
+// network, as on a real chain; an hourly summary covers a metric of a protocol
+// on a network for an hour and a price snapshot an asset at a time, among the
+// runs of a seed.
+
+// Attributes making up the key of each entity type
+export const NATURAL_KEY_ATTRIBUTES: Record<EntityType, readonly string[]> = {
+  protocol_event: ['network', 'txHash', 'logIndex'],
+  aggregated_metric: ['metricType', 'protocol', 'network', 'timestamp', 'seed'],
+  price_snapshot: ['asset', 'timestamp', 'seed'],
+};
+
+export interface NaturalKey {
+  // The key as one string, e.g. protocol_event/ethereum/0x3f…/2
+  id: string;
+  // Matches the entities stored with this key
+  predicate: Predicate;
+}
+
+/**
+ * The natural key of an entity, from its attributes; undefined when they lack
+ * one of its parts (e.g. entities written before log indexes).
+ */
+export function naturalKey(attributes: Attribute[]): NaturalKey | undefined {
+  const valueOf = (key: string) => attributes.find((attribute) => attribute.key === key)?.value;
+  const entityType = valueOf('entityType') as EntityType | undefined;
+  const keys = entityType && NATURAL_KEY_ATTRIBUTES[entityType];
+  if (!keys) {
+    return undefined;
+  }
+
+  const values = keys.map(valueOf);
+  if (values.some((value) => value === undefined)) {
+    return undefined;
+  }
+  return {
+    id: [entityType, ...values].join('/'),
+    predicate: and([
+      eq('entityType', entityType),
+      ...keys.map((key, i) => eq(key, values[i] as string | number)),
+    ]),
+  };
+}
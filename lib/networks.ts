@@ -0,0 +1,90 @@
+// ============================================================================
+// SOURCE NETWORKS
+// ============================================================================
+//
+// The chains protocol events come from. Each network has its own block time
+// and a reference block from which on it holds, so block numbers line up with
+// the real chain at any timestamp; the known tokens (lib/tokens.ts) deployed
+// on it; and an activity level, its default share of the events when a
+// scenario spreads them over several networks.
+//
+// Arbitrum and Polygon blocks do not come at a fixed pace: their reference
+// heights are those of the start of 2024 and their block numbers approximate.
+
+export const NETWORK_IDS = ['ethereum', 'arbitrum', 'optimism', 'base', 'polygon'] as const;
+
+export type NetworkId = (typeof NETWORK_IDS)[number];
+
+export interface SourceNetwork {
+  id: NetworkId;
+  name: string;
+  chainId: number;
+  blockTimeMs: number;
+  // A block and its time (ms since epoch), from which on there is one block
+  // every blockTimeMs; `label` names it in errors
+  anchor: { block: number; time: number; label: string };
+  // Default weight of the network among the networks of a scenario
+  activity: number;
+  // Known tokens deployed on the network; every scenario asset when missing
+  // (scenario addresses are mainnet addresses)
+  assets?: readonly string[];
+}
+
+export const SOURCE_NETWORKS: Record<NetworkId, SourceNetwork> = {
+  ethereum: {
+    id: 'ethereum',
+    name: 'Ethereum',
+    chainId: 1,
+    blockTimeMs: 12_000,
+    // First proof-of-stake block
+    anchor: { block: 15_537_394, time: Date.parse('2022-09-15T06:42:59Z'), label: 'the merge' },
+    activity: 40,
+  },
+  arbitrum: {
+    id: 'arbitrum',
+    name: 'Arbitrum One',
+    chainId: 42161,
+    blockTimeMs: 250,
+    anchor: { block: 165_900_000, time: Date.parse('2024-01-01T00:00:00Z'), label: '2024' },
+    activity: 25,
+    assets: ['USDC', 'WETH', 'DAI', 'USDT', 'WBTC', 'LINK', 'UNI', 'AAVE'],
+  },
+  optimism: {
+    id: 'optimism',
+    name: 'OP Mainnet',
+    chainId: 10,
+    blockTimeMs: 2_000,
+    // First block after the Bedrock upgrade
+    anchor: { block: 105_235_063, time: Date.parse('2023-06-06T16:28:23Z'), label: 'Bedrock' },
+    activity: 8,
+    assets: ['USDC', 'WETH', 'DAI', 'USDT', 'WBTC', 'LINK', 'UNI', 'AAVE'],
+  },
+  base: {
+    id: 'base',
+    name: 'Base',
+    chainId: 8453,
+    blockTimeMs: 2_000,
+    anchor: { block: 0, time: Date.parse('2023-06-15T00:35:47Z'), label: 'genesis' },
+    activity: 20,
+    assets: ['USDC', 'WETH', 'DAI', 'USDT', 'LINK'],
+  },
+  polygon: {
+    id: 'polygon',
+    name: 'Polygon PoS',
+    chainId: 137,
+    blockTimeMs: 2_000,
+    anchor: { block: 51_640_000, time: Date.parse('2024-01-01T00:00:00Z'), label: '2024' },
+    activity: 7,
+    assets: ['USDC', 'WETH', 'DAI', 'USDT', 'WBTC', 'LINK', 'UNI', 'AAVE'],
+  },
+};
+
+/** Block of `network` containing `time` (ms since epoch). */
+export function networkBlockAt(network: SourceNetwork, time: number): number {
+  return network.anchor.block + Math.floor((time - network.anchor.time) / network.blockTimeMs);
+}
+
+/** Timestamp (ms since epoch) of `block` on `network`. */
+export function networkTimeOfBlock(network: SourceNetwork, block: number): number {
+  return network.anchor.time + (block - network.anchor.block) * network.blockTimeMs;
+}
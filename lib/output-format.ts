@@ -0,0 +1,143 @@
+import type { StoredEntity } from './entity-query';
+import { protocolPlugin } from './protocols';
+import type { GeneratedEntity } from './types';
+
+// ============================================================================
+// QUERY OUTPUT
+// ============================================================================
+//
+// Prints entities read back from Arkiv as a table for reading in the
+// terminal, or as JSON, NDJSON or CSV for other tools. NDJSON is written as
+// entities arrive; the other formats need every entity first (a JSON array
+// has to be closed, CSV and table columns depend on all rows).
+
+export type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson', 'csv'];
+
+export interface EntityWriter {
+  write(entity: StoredEntity): void;
+  // Print whatever was held back for the end
+  end(): void;
+}
+
+// The payload fields with the entity key first
+function toRow({ entityKey, data }: StoredEntity): Record<string, unknown> {
+  return { entityKey, ...data };
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatCsv(rows: Record<string, unknown>[]): string {
+  // Entity types differ in their fields: use every field seen, in order of appearance
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [
+    columns.join(','),
+    ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(',')),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function shortKey(key: string): string {
+  return `${key.slice(0, 8)}…${key.slice(-4)}`;
+}
+
+// One line per entity with the fields that say what it is
+function tableColumns(data: GeneratedEntity): Record<string, string> {
+  if (data.entityType === 'protocol_event') {
+    const { asset, user, usd } = protocolPlugin(data.protocol).describe(data);
+    return {
+      entity: `${data.protocol} ${data.eventType}`,
+      asset,
+      user,
+      usd,
+      block: String(data.blockNumber),
+    };
+  }
+  if (data.entityType === 'aggregated_metric') {
+    return {
+      entity: `${data.protocol} ${data.metricType}`,
+      asset: '',
+      user: `${data.uniqueUsers} users`,
+      usd: data.totalVolumeUSD,
+      block: '',
+    };
+  }
+  return { entity: data.snapshotType, asset: data.asset, user: '', usd: data.priceUSD, block: '' };
+}
+
+/**
+ * One line describing an entity, for live feeds.
+ */
+export function describeEntity({ entityKey, data }: StoredEntity): string {
+  const { entity, asset, user, usd, block } = tableColumns(data);
+  return [
+    shortKey(entityKey),
+    data.timestamp,
+    entity,
+    asset,
+    user && `by ${user}`,
+    usd && `$${usd}`,
+    block && `block ${block}`,
+  ]
+    .filter((part) => part !== '')
+    .join('  ');
+}
+
+function formatTable(entities: StoredEntity[]): string {
+  const header = ['key', 'timestamp', 'block', 'entity', 'asset', 'user', 'usd'];
+  const rows = entities.map(({ entityKey, data }) => {
+    const { entity, asset, user, usd, block } = tableColumns(data);
+    return [shortKey(entityKey), data.timestamp, block, entity, asset, user, usd];
+  });
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map((row) => row[i].length))
+  );
+  // Right-align the numbers
+  const numeric = new Set(['block', 'usd']);
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) =>
+        numeric.has(header[i]) ? cell.padStart(widths[i]) : cell.padEnd(widths[i])
+      )
+      .join('  ')
+      .trimEnd();
+  return [line(header), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)]
+    .join('\n')
+    .concat('\n');
+}
+
+/**
+ * Write entities to `out` in the given format.
+ */
+export function createEntityWriter(
+  format: OutputFormat,
+  out: NodeJS.WritableStream = process.stdout
+): EntityWriter {
+  const held: StoredEntity[] = [];
+
+  return {
+    write(entity) {
+      if (format === 'ndjson') {
+        out.write(JSON.stringify(toRow(entity)) + '\n');
+      } else {
+        held.push(entity);
+      }
+    },
+    end() {
+      if (format === 'json') {
+        out.write(JSON.stringify(held.map(toRow), null, 2) + '\n');
+      } else if (format === 'csv') {
+        out.write(formatCsv(held.map(toRow)));
+      } else if (format === 'table') {
+        out.write(formatTable(held));
+      }
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import { random } from './random';
+
+// ============================================================================
+// PRICE SIMULATOR
+// ============================================================================
+//
+// Evolves a price path per asset over the generator's (simulated) time on a
+// fixed 5-minute grid. Volatile assets follow a geometric Brownian motion with
+// their own annualized volatility; pegged assets (stablecoins) mean-revert
+// around $1. The path starts 24 hours before the first price requested, so
+// 24h changes are meaningful from the first snapshot on. The simulator also
+// keeps the USD volume the generated events moved per asset, for volume24hUSD.
+// All draws go through the seeded PRNG.
+
+const STEP_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STEP_YEARS = STEP_MS / (365 * DAY_MS);
+
+export interface AssetMarket {
+  initialPrice: number;
+  // Annualized volatility of the price path (ignored for pegged assets)
+  volatility: number;
+  // Stablecoins: the price stays within a fraction of a cent of initialPrice
+  pegged?: boolean;
+  circulatingSupply: number;
+}
+
+interface PricePoint {
+  time: number;
+  prices: Record<string, number>;
+  // USD volume recorded in the 5 minutes starting at `time`
+  volumes: Record<string, number>;
+}
+
+// The last 24 hours of the path, saved in checkpoints
+export interface PriceSimulatorState {
+  points: PricePoint[];
+}
+
+export interface PriceSimulator {
+  priceAt(asset: string, timestamp: string): number;
+  // Relative price change over the 24 hours before `timestamp` (0.05 = +5%)
+  change24h(asset: string, timestamp: string): number;
+  // Add USD volume moved in `asset` at `timestamp`
+  recordVolume(asset: string, timestamp: string, usd: number): void;
+  volume24h(asset: string, timestamp: string): number;
+  marketCap(asset: string, timestamp: string): number;
+  getState(): PriceSimulatorState;
+}
+
+// Standard normal draw (Box-Muller)
+function gaussian(): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function nextPrice(market: AssetMarket, price: number): number {
+  if (market.pegged) {
+    // Pull the deviation from the peg back by 10% per step, plus a little noise
+    const deviation = (price - market.initialPrice) * 0.9 + 0.0003 * gaussian();
+    return market.initialPrice + deviation;
+  }
+  const sigma = market.volatility;
+  return (
+    price * Math.exp(-0.5 * sigma * sigma * STEP_YEARS + sigma * Math.sqrt(STEP_YEARS) * gaussian())
+  );
+}
+
+/**
+ * Simulate prices for `markets`, starting fresh or from a saved state.
+ */
+export function createPriceSimulator(
+  markets: Record<string, AssetMarket>,
+  state: PriceSimulatorState = { points: [] }
+): PriceSimulator {
+  const points: PricePoint[] = structuredClone(state.points);
+
+  function marketOf(asset: string): AssetMarket {
+    const market = markets[asset];
+    if (!market) {
+      throw new Error(`No market configured for asset ${asset}`);
+    }
+    return market;
+  }
+
+  // Extend the path up to `time` and return the point covering it
+  function pointAt(time: number): PricePoint {
+    const gridTime = time - (time % STEP_MS);
+
+    if (points.length === 0) {
+      const prices: Record<string, number> = {};
+      for (const [asset, market] of Object.entries(markets)) {
+        prices[asset] = market.initialPrice;
+      }
+      points.push({ time: gridTime - DAY_MS, prices, volumes: {} });
+    }
+
+    let last = points[points.length - 1];
+    while (last.time < gridTime) {
+      const prices: Record<string, number> = {};
+      for (const [asset, market] of Object.entries(markets)) {
+        prices[asset] = nextPrice(market, last.prices[asset]);
+      }
+      last = { time: last.time + STEP_MS, prices, volumes: {} };
+      points.push(last);
+    }
+
+    // Only the last day (plus one step to compare against) is ever looked up
+    while (points.length > 2 && points[1].time <= last.time - DAY_MS) {
+      points.shift();
+    }
+
+    // Timestamps older than the retained history read the oldest point
+    for (let i = points.length - 1; i > 0; i--) {
+      if (points[i].time <= gridTime) {
+        return points[i];
+      }
+    }
+    return points[0];
+  }
+
+  function priceAt(asset: string, timestamp: string): number {
+    marketOf(asset);
+    return pointAt(Date.parse(timestamp)).prices[asset];
+  }
+
+  return {
+    priceAt,
+    change24h(asset, timestamp) {
+      const price = priceAt(asset, timestamp);
+      const dayBefore = new Date(Date.parse(timestamp) - DAY_MS).toISOString();
+      return price / priceAt(asset, dayBefore) - 1;
+    },
+    recordVolume(asset, timestamp, usd) {
+      const point = pointAt(Date.parse(timestamp));
+      point.volumes[asset] = (point.volumes[asset] ?? 0) + usd;
+    },
+    volume24h(asset, timestamp) {
+      const time = pointAt(Date.parse(timestamp)).time;
+      return points
+        .filter((point) => point.time > time - DAY_MS && point.time <= time)
+        .reduce((sum, point) => sum + (point.volumes[asset] ?? 0), 0);
+    },
+    marketCap(asset, timestamp) {
+      return priceAt(asset, timestamp) * marketOf(asset).circulatingSupply;
+    },
+    getState() {
+      return { points: structuredClone(points) };
+    },
+  };
+}
@@ -0,0 +1,600 @@
+import { formatUnits } from 'ethers';
+import { z } from 'zod';
+import {
+  createAaveLedger,
+  type AaveLedgerState,
+  type PriceOf,
+  type ReserveConfig,
+} from '../aave-ledger';
+import { AMOUNT, COMMON_RULES, NUMBER, STRING, USD } from '../attribute-rules';
+import { formatTokenAmount, UnmappedLogError, type DecodedLog, type LogContext } from '../evm-logs';
+import type { Scenario } from '../scenario';
+import {
+  addressSchema,
+  blockNumberSchema,
+  decimalSchema,
+  logIndexSchema,
+  percentSchema,
+  runFields,
+  symbolSchema,
+  timestampSchema,
+  txHashSchema,
+} from '../schema-fields';
+import { random } from '../random';
+import { formatAmount, randomElement, sampleAmount, type SimulationContext } from '../simulation';
+import { defineProtocol, type ProtocolSimulation } from './plugin';
+
+// ============================================================================
+// AAVE V3
+// ============================================================================
+
+export const aaveEventTypeSchema = z.enum([
+  'Supply',
+  'Borrow',
+  'Withdraw',
+  'Repay',
+  'LiquidationCall',
+]);
+
+// Event-specific fields each Aave event type must carry
+const AAVE_REQUIRED_FIELDS = {
+  Supply: ['onBehalfOf'],
+  Borrow: ['onBehalfOf', 'interestRateMode', 'borrowRate'],
+  Withdraw: ['to'],
+  Repay: ['repayer', 'useATokens'],
+  LiquidationCall: [
+    'collateralAsset',
+    'debtAsset',
+    'liquidator',
+    'debtToCover',
+    'debtToCoverUSD',
+    'liquidatedCollateralAmount',
+    'liquidatedCollateralAmountUSD',
+  ],
+} as const;
+
+export const aaveEventSchema = z
+  .strictObject({
+    entityType: z.literal('protocol_event'),
+    eventType: aaveEventTypeSchema,
+    protocol: z.literal('aave-v3'),
+    network: z.string().min(1),
+    reserve: symbolSchema,
+    user: addressSchema,
+    amount: decimalSchema,
+    amountUSD: decimalSchema,
+    txHash: txHashSchema,
+    logIndex: logIndexSchema,
+    blockNumber: blockNumberSchema,
+    timestamp: timestampSchema,
+    ...runFields,
+
+    // Event-specific fields
+    onBehalfOf: addressSchema.optional(),
+    to: addressSchema.optional(),
+    referralCode: z.number().int().nonnegative().optional(),
+    // 1 = stable, 2 = variable
+    interestRateMode: z.union([z.literal(1), z.literal(2)]).optional(),
+    borrowRate: percentSchema.optional(),
+    repayer: addressSchema.optional(),
+    useATokens: z.boolean().optional(),
+    collateralAsset: symbolSchema.optional(),
+    debtAsset: symbolSchema.optional(),
+    liquidator: addressSchema.optional(),
+    liquidatedCollateralAmount: decimalSchema.optional(),
+    liquidatedCollateralAmountUSD: decimalSchema.optional(),
+    debtToCover: decimalSchema.optional(),
+    debtToCoverUSD: decimalSchema.optional(),
+  })
+  .superRefine((event, ctx) => {
+    for (const field of AAVE_REQUIRED_FIELDS[event.eventType]) {
+      if (event[field] === undefined) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [field],
+          message: `required for ${event.eventType} events`,
+        });
+      }
+    }
+    if (event.eventType === 'LiquidationCall') {
+      // Liquidations are filed under the collateral reserve, for the debt covered
+      if (event.reserve !== event.collateralAsset) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['reserve'],
+          message: 'must equal collateralAsset',
+        });
+      }
+      if (event.amount !== event.debtToCover) {
+        ctx.addIssue({ code: 'custom', path: ['amount'], message: 'must equal debtToCover' });
+      }
+      // The simulation has bots liquidate other users; on chain anyone can,
+      // so events decoded from logs (which have no seed) may be self-liquidations
+      if (event.seed !== undefined && event.liquidator === event.user) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['liquidator'],
+          message: 'cannot liquidate their own position',
+        });
+      }
+    }
+  });
+
+type AaveEvent = z.infer<typeof aaveEventSchema>;
+
+/**
+ * The Aave reserves of a scenario: its assets with Aave risk parameters.
+ */
+export function scenarioReserves(scenario: Scenario): Record<string, ReserveConfig> {
+  const reserves: Record<string, ReserveConfig> = {};
+  for (const [symbol, asset] of Object.entries(scenario.assets)) {
+    if (asset.aave) {
+      reserves[symbol] = asset.aave;
+    }
+  }
+  return reserves;
+}
+
+// ----------------------------------------------------------------------------
+// Event generators
+// ----------------------------------------------------------------------------
+//
+// Aave events are driven by the position ledger: borrows need collateral,
+// withdrawals and repayments are limited to what the user has, and
+// liquidations only hit positions whose health factor fell below 1. A
+// generator returns undefined when no position allows its event right now.
+
+// Asset with the largest USD value in `balances`, leaving out `exclude`
+function largestBalance(
+  balances: Record<string, number>,
+  priceOf: PriceOf,
+  exclude?: string
+): string | undefined {
+  let largest: string | undefined;
+  let largestUSD = 0;
+  for (const [asset, amount] of Object.entries(balances)) {
+    const usd = amount * priceOf(asset);
+    if (asset !== exclude && usd > largestUSD) {
+      largest = asset;
+      largestUSD = usd;
+    }
+  }
+  return largest;
+}
+
+function createAaveSimulation(
+  context: SimulationContext,
+  state?: AaveLedgerState
+): ProtocolSimulation<AaveEvent> {
+  const { scenario, prices, calculateUSD } = context;
+  const reserves = Object.keys(scenarioReserves(scenario));
+  // Aave positions of every user, so events respect supplied collateral and debt
+  const aaveLedger = createAaveLedger(scenarioReserves(scenario), state);
+
+  function pricesAt(timestamp: string): PriceOf {
+    return (asset) => prices.priceAt(asset, timestamp);
+  }
+
+  function generateSupplyEvent(): AaveEvent {
+    // Block and time come first: amounts are valued at the event's timestamp
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const user = context.randomUser();
+    const onBehalfOf = random() > 0.8 ? context.randomUser() : user;
+    const reserve = randomElement(reserves);
+    const amount =
+      sampleAmount(scenario.amounts.supplyUSD, random()) / prices.priceAt(reserve, timestamp);
+    aaveLedger.supply(onBehalfOf, reserve, amount);
+
+    return {
+      entityType: 'protocol_event',
+      eventType: 'Supply',
+      protocol: 'aave-v3',
+      network: context.network,
+      reserve,
+      user,
+      onBehalfOf,
+      amount: formatAmount(amount),
+      amountUSD: calculateUSD(formatAmount(amount), reserve, timestamp),
+      referralCode: 0,
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateBorrowEvent(): AaveEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const priceOf = pricesAt(timestamp);
+    const borrowers = aaveLedger
+      .suppliers()
+      .filter((user) => aaveLedger.availableBorrowsUSD(user, priceOf) >= 50);
+    if (borrowers.length === 0) {
+      return undefined;
+    }
+
+    const user = randomElement(borrowers);
+    const reserve = randomElement(reserves);
+    // Most borrowers keep a buffer, some borrow right up to their limit
+    const share = random() < 0.3 ? 0.9 + random() * 0.1 : 0.2 + random() * 0.5;
+    const amount = (aaveLedger.availableBorrowsUSD(user, priceOf) * share) / priceOf(reserve);
+    aaveLedger.borrow(user, reserve, amount);
+
+    return {
+      entityType: 'protocol_event',
+      eventType: 'Borrow',
+      protocol: 'aave-v3',
+      network: context.network,
+      reserve,
+      user,
+      onBehalfOf: user,
+      amount: formatAmount(amount),
+      amountUSD: calculateUSD(formatAmount(amount), reserve, timestamp),
+      interestRateMode: random() > 0.7 ? 1 : 2, // 1=Stable, 2=Variable
+      borrowRate: (random() * 10 + 1).toFixed(4) + '%',
+      referralCode: 0,
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateWithdrawEvent(): AaveEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const priceOf = pricesAt(timestamp);
+    const withdrawable = aaveLedger.suppliers().flatMap((user) =>
+      Object.keys(aaveLedger.position(user).supplied)
+        .map((reserve) => ({ user, reserve, max: aaveLedger.maxWithdraw(user, reserve, priceOf) }))
+        .filter(({ max }) => max > 0)
+    );
+    if (withdrawable.length === 0) {
+      return undefined;
+    }
+
+    const { user, reserve, max } = randomElement(withdrawable);
+    // Withdraw everything that is free now and then, otherwise part of it
+    const amount = random() < 0.3 ? max : max * (0.1 + random() * 0.8);
+    aaveLedger.withdraw(user, reserve, amount);
+
+    return {
+      entityType: 'protocol_event',
+      eventType: 'Withdraw',
+      protocol: 'aave-v3',
+      network: context.network,
+      reserve,
+      user,
+      to: random() > 0.8 ? context.randomUser() : user,
+      amount: formatAmount(amount),
+      amountUSD: calculateUSD(formatAmount(amount), reserve, timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateRepayEvent(): AaveEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const debts = aaveLedger.borrowers().flatMap((user) =>
+      Object.entries(aaveLedger.position(user).debt).map(([reserve, debt]) => ({
+        user,
+        reserve,
+        debt,
+      }))
+    );
+    if (debts.length === 0) {
+      return undefined;
+    }
+
+    const { user, reserve, debt } = randomElement(debts);
+    const amount = random() < 0.3 ? debt : debt * (0.1 + random() * 0.8);
+    const repayer = random() > 0.9 ? context.randomUser() : user;
+    // Only the borrower can repay with aTokens, burning collateral of the same asset
+    const useATokens =
+      repayer === user &&
+      (aaveLedger.position(user).supplied[reserve] ?? 0) >= amount &&
+      random() > 0.8;
+    aaveLedger.repay(user, reserve, amount);
+    if (useATokens) {
+      aaveLedger.withdraw(user, reserve, amount);
+    }
+
+    return {
+      entityType: 'protocol_event',
+      eventType: 'Repay',
+      protocol: 'aave-v3',
+      network: context.network,
+      reserve,
+      user,
+      repayer,
+      amount: formatAmount(amount),
+      amountUSD: calculateUSD(formatAmount(amount), reserve, timestamp),
+      useATokens,
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateLiquidationEvent(): AaveEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const priceOf = pricesAt(timestamp);
+    // Liquidators repay the largest debt and seize the largest other collateral
+    const liquidatable = aaveLedger
+      .borrowers()
+      .filter((user) => aaveLedger.healthFactor(user, priceOf) < 1)
+      .map((user) => {
+        const { supplied, debt } = aaveLedger.position(user);
+        const debtAsset = largestBalance(debt, priceOf)!;
+        return { user, debtAsset, collateralAsset: largestBalance(supplied, priceOf, debtAsset) };
+      })
+      .filter(({ collateralAsset }) => collateralAsset !== undefined);
+    if (liquidatable.length === 0) {
+      return undefined;
+    }
+
+    const { user, debtAsset, collateralAsset } = randomElement(liquidatable);
+    const { debtToCover, liquidatedCollateralAmount } = aaveLedger.liquidate(
+      user,
+      debtAsset,
+      collateralAsset!,
+      priceOf
+    );
+    let liquidator = context.randomUser('liquidation');
+    while (liquidator === user) {
+      liquidator = context.randomUser('liquidation');
+    }
+
+    return {
+      entityType: 'protocol_event',
+      eventType: 'LiquidationCall',
+      protocol: 'aave-v3',
+      network: context.network,
+      collateralAsset,
+      debtAsset,
+      user,
+      liquidator,
+      debtToCover: formatAmount(debtToCover),
+      debtToCoverUSD: calculateUSD(formatAmount(debtToCover), debtAsset, timestamp),
+      liquidatedCollateralAmount: formatAmount(liquidatedCollateralAmount),
+      liquidatedCollateralAmountUSD: calculateUSD(
+        formatAmount(liquidatedCollateralAmount),
+        collateralAsset!,
+        timestamp
+      ),
+      reserve: collateralAsset!,
+      amount: formatAmount(debtToCover),
+      amountUSD: calculateUSD(formatAmount(debtToCover), debtAsset, timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  const generators = {
+    Supply: generateSupplyEvent,
+    Borrow: generateBorrowEvent,
+    Withdraw: generateWithdrawEvent,
+    Repay: generateRepayEvent,
+    LiquidationCall: generateLiquidationEvent,
+  };
+
+  return {
+    // Events without a position to act on fall back to a supply, which opens one
+    generate(eventType) {
+      return generators[eventType]() ?? generateSupplyEvent();
+    },
+    getState() {
+      return aaveLedger.getState();
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Logs
+// ----------------------------------------------------------------------------
+//
+// Events of the Aave V3 Pool contract. Amounts are raw integers in the units
+// of their reserve, borrow rates rays (27 decimals).
+
+const AAVE_POOL_ABI = [
+  'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+  'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)',
+  'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)',
+  'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)',
+];
+
+// The Pool (proxy) of the Aave V3 market of each network
+const AAVE_POOL_ADDRESSES = {
+  ethereum: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
+  arbitrum: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+  optimism: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+  base: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+  polygon: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+};
+
+async function decodeAaveLog(log: DecodedLog, context: LogContext): Promise<AaveEvent> {
+  // An amount of the token at `address`, with its symbol and USD value
+  async function amountOf(raw: bigint, address: string) {
+    const token = await context.token(address);
+    const amount = formatTokenAmount(raw, token);
+    return { asset: token.symbol, amount, usd: context.calculateUSD(amount, token.symbol) };
+  }
+
+  const logFields = {
+    txHash: log.txHash,
+    logIndex: log.logIndex,
+    blockNumber: log.blockNumber,
+    timestamp: log.timestamp,
+  };
+  const eventFields = {
+    entityType: 'protocol_event' as const,
+    protocol: 'aave-v3' as const,
+    network: log.network,
+  };
+
+  if (log.name === 'LiquidationCall') {
+    const args = log.args as {
+      collateralAsset: string;
+      debtAsset: string;
+      user: string;
+      debtToCover: bigint;
+      liquidatedCollateralAmount: bigint;
+      liquidator: string;
+    };
+    const debt = await amountOf(args.debtToCover, args.debtAsset);
+    const collateral = await amountOf(args.liquidatedCollateralAmount, args.collateralAsset);
+    return {
+      ...eventFields,
+      eventType: 'LiquidationCall',
+      collateralAsset: collateral.asset,
+      debtAsset: debt.asset,
+      user: args.user,
+      liquidator: args.liquidator,
+      debtToCover: debt.amount,
+      debtToCoverUSD: debt.usd,
+      liquidatedCollateralAmount: collateral.amount,
+      liquidatedCollateralAmountUSD: collateral.usd,
+      reserve: collateral.asset,
+      amount: debt.amount,
+      amountUSD: debt.usd,
+      ...logFields,
+    };
+  }
+
+  const args = log.args as {
+    reserve: string;
+    user: string;
+    amount: bigint;
+    onBehalfOf?: string;
+    to?: string;
+    referralCode?: bigint;
+    interestRateMode?: bigint;
+    borrowRate?: bigint;
+    repayer?: string;
+    useATokens?: boolean;
+  };
+  const { asset, amount, usd } = await amountOf(args.amount, args.reserve);
+  const event = {
+    ...eventFields,
+    reserve: asset,
+    user: args.user,
+    amount,
+    amountUSD: usd,
+    ...logFields,
+  };
+
+  switch (log.name) {
+    case 'Supply':
+      return {
+        ...event,
+        eventType: 'Supply',
+        onBehalfOf: args.onBehalfOf,
+        referralCode: Number(args.referralCode),
+      };
+    case 'Borrow': {
+      const interestRateMode = Number(args.interestRateMode);
+      if (interestRateMode !== 1 && interestRateMode !== 2) {
+        throw new UnmappedLogError(`unknown interest rate mode ${interestRateMode}`);
+      }
+      return {
+        ...event,
+        eventType: 'Borrow',
+        onBehalfOf: args.onBehalfOf,
+        interestRateMode,
+        // A ray is 1e27, so percentages have 25 decimals
+        borrowRate: Number(formatUnits(args.borrowRate!, 25)).toFixed(4) + '%',
+        referralCode: Number(args.referralCode),
+      };
+    }
+    case 'Withdraw':
+      return { ...event, eventType: 'Withdraw', to: args.to };
+    case 'Repay':
+      return { ...event, eventType: 'Repay', repayer: args.repayer, useATokens: args.useATokens };
+    default:
+      throw new UnmappedLogError(`no Aave event ${log.name}`);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Plugin
+// ----------------------------------------------------------------------------
+
+export const aaveV3 = defineProtocol({
+  id: 'aave-v3',
+  name: 'Aave V3',
+  eventTypes: aaveEventTypeSchema.options,
+  schema: aaveEventSchema,
+  jsonSchemaDefs: { AaveEvent: aaveEventSchema },
+  attributes: {
+    ...COMMON_RULES,
+    reserve: STRING,
+    user: STRING,
+    amount: AMOUNT,
+    amountUSD: USD,
+    onBehalfOf: STRING,
+    to: STRING,
+    interestRateMode: NUMBER,
+    repayer: STRING,
+    useATokens: STRING,
+    collateralAsset: STRING,
+    debtAsset: STRING,
+    liquidator: STRING,
+    liquidatedCollateralAmount: AMOUNT,
+    liquidatedCollateralAmountUSD: USD,
+    debtToCover: AMOUNT,
+    debtToCoverUSD: USD,
+  },
+  defaultWeights: { Supply: 25, Borrow: 20, Withdraw: 15, Repay: 8, LiquidationCall: 2 },
+
+  // Liquidations add the debt covered, in the debt asset
+  contribution(event) {
+    return {
+      user: event.user,
+      volume: { asset: event.debtAsset ?? event.reserve, usd: event.amountUSD },
+    };
+  },
+  tradedVolume(event) {
+    if (event.eventType === 'LiquidationCall') {
+      return [
+        { asset: event.debtAsset!, usd: event.debtToCoverUSD! },
+        { asset: event.collateralAsset!, usd: event.liquidatedCollateralAmountUSD! },
+      ];
+    }
+    return [{ asset: event.reserve, usd: event.amountUSD }];
+  },
+  describe(event) {
+    return { asset: event.reserve, user: event.user, usd: event.amountUSD };
+  },
+  liquidation(event) {
+    if (event.eventType !== 'LiquidationCall') {
+      return undefined;
+    }
+    return {
+      user: event.user,
+      liquidator: event.liquidator ?? '',
+      collateralAsset: event.collateralAsset ?? event.reserve,
+      debtAsset: event.debtAsset ?? event.reserve,
+      debtCoveredUSD: Number(event.debtToCoverUSD ?? event.amountUSD),
+      collateralLiquidatedUSD: Number(event.liquidatedCollateralAmountUSD ?? 0),
+    };
+  },
+  logs: {
+    abi: AAVE_POOL_ABI,
+    contracts: AAVE_POOL_ADDRESSES,
+    createDecoder: (context) => (log) => decodeAaveLog(log, context),
+  },
+  checkScenario(scenario) {
+    return Object.values(scenario.assets).some((asset) => asset.aave)
+      ? []
+      : [{ path: ['assets'], message: 'Aave events need at least one asset with aave parameters' }];
+  },
+
+  createSimulation(context, state) {
+    return createAaveSimulation(context, state as AaveLedgerState | undefined);
+  },
+});
@@ -0,0 +1,424 @@
+import { z } from 'zod';
+import type { PriceOf } from '../aave-ledger';
+import { AMOUNT, COMMON_RULES, STRING, USD } from '../attribute-rules';
+import {
+  COMET_ADDRESSES,
+  createCompoundLedger,
+  type CometConfig,
+  type CompoundLedgerState,
+} from '../compound-ledger';
+import { random } from '../random';
+import type { Scenario } from '../scenario';
+import {
+  addressSchema,
+  blockNumberSchema,
+  decimalSchema,
+  logIndexSchema,
+  runFields,
+  symbolSchema,
+  timestampSchema,
+  txHashSchema,
+} from '../schema-fields';
+import { formatAmount, randomElement, sampleAmount, type SimulationContext } from '../simulation';
+import { defineProtocol, type ProtocolSimulation } from './plugin';
+
+// ============================================================================
+// COMPOUND V3
+// ============================================================================
+
+// Fields shared by all Compound events: the market and what moved in it
+const cometFields = {
+  entityType: z.literal('protocol_event'),
+  protocol: z.literal('compound-v3'),
+  network: z.string().min(1),
+  // Address of the Comet market and the asset it lends
+  market: addressSchema,
+  baseAsset: symbolSchema,
+  user: addressSchema,
+  asset: symbolSchema,
+  amount: decimalSchema,
+  amountUSD: decimalSchema,
+  txHash: txHashSchema,
+  logIndex: logIndexSchema,
+  blockNumber: blockNumberSchema,
+  timestamp: timestampSchema,
+  ...runFields,
+};
+
+// Base supplies report the debt they repaid and base withdrawals the amount
+// they borrowed; collateral moves have neither
+function checkBaseField(
+  event: { asset: string; baseAsset: string },
+  field: string,
+  value: string | undefined,
+  ctx: z.RefinementCtx
+): void {
+  if (event.asset === event.baseAsset && value === undefined) {
+    ctx.addIssue({ code: 'custom', path: [field], message: 'required when asset is baseAsset' });
+  }
+  if (event.asset !== event.baseAsset && value !== undefined) {
+    ctx.addIssue({ code: 'custom', path: [field], message: 'only for the base asset' });
+  }
+}
+
+export const compoundSupplyEventSchema = z
+  .strictObject({
+    ...cometFields,
+    eventType: z.literal('Supply'),
+    // Account credited, usually the user
+    dst: addressSchema,
+    repaid: decimalSchema.optional(),
+  })
+  .superRefine((event, ctx) => checkBaseField(event, 'repaid', event.repaid, ctx));
+
+export const compoundWithdrawEventSchema = z
+  .strictObject({
+    ...cometFields,
+    eventType: z.literal('Withdraw'),
+    to: addressSchema,
+    borrowed: decimalSchema.optional(),
+  })
+  .superRefine((event, ctx) => checkBaseField(event, 'borrowed', event.borrowed, ctx));
+
+export const compoundAbsorbDebtEventSchema = z
+  .strictObject({
+    ...cometFields,
+    eventType: z.literal('AbsorbDebt'),
+    absorber: addressSchema,
+    // Collateral taken over by the protocol, largest USD value first
+    collateralAbsorbed: z.record(symbolSchema, decimalSchema),
+    collateralAbsorbedUSD: decimalSchema,
+  })
+  .superRefine((event, ctx) => {
+    if (event.asset !== event.baseAsset) {
+      ctx.addIssue({ code: 'custom', path: ['asset'], message: 'must equal baseAsset' });
+    }
+    if (event.absorber === event.user) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['absorber'],
+        message: 'cannot absorb their own position',
+      });
+    }
+  });
+
+export const compoundBuyCollateralEventSchema = z
+  .strictObject({
+    ...cometFields,
+    eventType: z.literal('BuyCollateral'),
+    // Base paid for the collateral, below its market value
+    baseAmount: decimalSchema,
+    baseAmountUSD: decimalSchema,
+  })
+  .superRefine((event, ctx) => {
+    if (event.asset === event.baseAsset) {
+      ctx.addIssue({ code: 'custom', path: ['asset'], message: 'must be a collateral asset' });
+    }
+  });
+
+export const compoundEventSchema = z.discriminatedUnion('eventType', [
+  compoundSupplyEventSchema,
+  compoundWithdrawEventSchema,
+  compoundAbsorbDebtEventSchema,
+  compoundBuyCollateralEventSchema,
+]);
+
+type CompoundEvent = z.infer<typeof compoundEventSchema>;
+type CompoundSupplyEvent = z.infer<typeof compoundSupplyEventSchema>;
+type CompoundWithdrawEvent = z.infer<typeof compoundWithdrawEventSchema>;
+type CompoundAbsorbDebtEvent = z.infer<typeof compoundAbsorbDebtEventSchema>;
+type CompoundBuyCollateralEvent = z.infer<typeof compoundBuyCollateralEventSchema>;
+
+/**
+ * The Compound V3 market of a scenario; only call when it has one.
+ */
+export function scenarioComet(scenario: Scenario): CometConfig & { address: string } {
+  const { base, address, collateral, storeFrontPriceFactor } = scenario.compound!;
+  return { base, address: address ?? COMET_ADDRESSES[base], collateral, storeFrontPriceFactor };
+}
+
+// ----------------------------------------------------------------------------
+// Event generators
+// ----------------------------------------------------------------------------
+//
+// Compound events are driven by the market ledger: base withdrawals borrow
+// against collateral, collateral withdrawals keep the position collateralized,
+// absorptions only hit positions past their liquidation factors and collateral
+// can only be bought once the protocol absorbed some. A generator returns
+// undefined when no position allows its event right now.
+
+// Smallest USD amount worth an event
+const MIN_EVENT_USD = 10;
+
+function createCompoundSimulation(
+  context: SimulationContext,
+  state?: CompoundLedgerState
+): ProtocolSimulation<CompoundEvent> {
+  const { scenario, prices, calculateUSD } = context;
+  const comet = scenarioComet(scenario);
+  const assets = [comet.base, ...Object.keys(comet.collateral)];
+  // Base balances and collateral of every user, and the collateral absorbed
+  const ledger = createCompoundLedger(comet, state);
+
+  function pricesAt(timestamp: string): PriceOf {
+    return (asset) => prices.priceAt(asset, timestamp);
+  }
+
+  function marketFields() {
+    return {
+      entityType: 'protocol_event' as const,
+      protocol: 'compound-v3' as const,
+      network: context.network,
+      market: comet.address,
+      baseAsset: comet.base,
+    };
+  }
+
+  function generateSupplyEvent(): CompoundSupplyEvent {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const user = context.randomUser();
+    const dst = random() > 0.8 ? context.randomUser() : user;
+    const asset = randomElement(assets);
+    const amount =
+      sampleAmount(scenario.amounts.supplyUSD, random()) / prices.priceAt(asset, timestamp);
+    // Base supplies pay down the debt of the account first
+    const repaid =
+      asset === comet.base ? Math.min(amount, Math.max(0, -ledger.position(dst).baseBalance)) : 0;
+    ledger.supply(dst, asset, amount);
+
+    return {
+      ...marketFields(),
+      eventType: 'Supply',
+      user,
+      dst,
+      asset,
+      amount: formatAmount(amount),
+      amountUSD: calculateUSD(formatAmount(amount), asset, timestamp),
+      ...(asset === comet.base && { repaid: formatAmount(repaid) }),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateWithdrawEvent(): CompoundWithdrawEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const priceOf = pricesAt(timestamp);
+    const withdrawable = ledger
+      .users()
+      .flatMap((user) =>
+        [comet.base, ...Object.keys(ledger.position(user).collateral)].map((asset) => ({
+          user,
+          asset,
+          max: ledger.maxWithdraw(user, asset, priceOf),
+        }))
+      )
+      .filter(({ asset, max }) => max * priceOf(asset) >= MIN_EVENT_USD);
+    // Half of the withdrawals take out (or borrow) the base asset, like on the real markets
+    const base = withdrawable.filter(({ asset }) => asset === comet.base);
+    const collateral = withdrawable.filter(({ asset }) => asset !== comet.base);
+    const preferred = random() < 0.5 ? base : collateral;
+    const candidates = preferred.length > 0 ? preferred : withdrawable;
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const { user, asset, max } = randomElement(candidates);
+    const supplied = asset === comet.base ? Math.max(0, ledger.position(user).baseBalance) : max;
+    let amount: number;
+    if (max > supplied) {
+      // Borrowers mostly keep a buffer, some borrow right up to their limit
+      amount = max * (random() < 0.3 ? 0.9 + random() * 0.1 : 0.2 + random() * 0.5);
+    } else {
+      // Withdraw everything that is free now and then, otherwise part of it
+      amount = random() < 0.3 ? max : max * (0.1 + random() * 0.8);
+    }
+    const borrowed = Math.max(0, amount - supplied);
+    ledger.withdraw(user, asset, amount);
+
+    return {
+      ...marketFields(),
+      eventType: 'Withdraw',
+      user,
+      to: random() > 0.8 ? context.randomUser() : user,
+      asset,
+      amount: formatAmount(amount),
+      amountUSD: calculateUSD(formatAmount(amount), asset, timestamp),
+      ...(asset === comet.base && { borrowed: formatAmount(borrowed) }),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateAbsorbDebtEvent(): CompoundAbsorbDebtEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const priceOf = pricesAt(timestamp);
+    const absorbable = ledger.borrowers().filter((user) => ledger.isLiquidatable(user, priceOf));
+    if (absorbable.length === 0) {
+      return undefined;
+    }
+
+    const user = randomElement(absorbable);
+    const { basePaidOut, collateral } = ledger.absorb(user, priceOf);
+    let absorber = context.randomUser('liquidation');
+    while (absorber === user) {
+      absorber = context.randomUser('liquidation');
+    }
+    const collateralAbsorbed: Record<string, string> = {};
+    let collateralCents = 0;
+    for (const [asset, amount] of Object.entries(collateral).sort(
+      ([a, amountA], [b, amountB]) => amountB * priceOf(b) - amountA * priceOf(a)
+    )) {
+      collateralAbsorbed[asset] = formatAmount(amount);
+      collateralCents += Math.round(
+        parseFloat(calculateUSD(formatAmount(amount), asset, timestamp)) * 100
+      );
+    }
+
+    return {
+      ...marketFields(),
+      eventType: 'AbsorbDebt',
+      user,
+      absorber,
+      asset: comet.base,
+      amount: formatAmount(basePaidOut),
+      amountUSD: calculateUSD(formatAmount(basePaidOut), comet.base, timestamp),
+      collateralAbsorbed,
+      collateralAbsorbedUSD: (collateralCents / 100).toFixed(2),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateBuyCollateralEvent(): CompoundBuyCollateralEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const priceOf = pricesAt(timestamp);
+    const forSale = Object.entries(ledger.reserves()).filter(
+      ([asset, amount]) => amount * priceOf(asset) >= MIN_EVENT_USD
+    );
+    if (forSale.length === 0) {
+      return undefined;
+    }
+
+    const [asset, available] = randomElement(forSale);
+    // Buyers take everything the protocol holds now and then, otherwise part of it
+    const amount = random() < 0.5 ? available : available * (0.2 + random() * 0.7);
+    const baseAmount = ledger.buyCollateral(asset, amount, priceOf);
+
+    return {
+      ...marketFields(),
+      eventType: 'BuyCollateral',
+      user: context.randomUser('liquidation'),
+      asset,
+      amount: formatAmount(amount),
+      amountUSD: calculateUSD(formatAmount(amount), asset, timestamp),
+      baseAmount: formatAmount(baseAmount),
+      baseAmountUSD: calculateUSD(formatAmount(baseAmount), comet.base, timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  const generators = {
+    Supply: generateSupplyEvent,
+    Withdraw: generateWithdrawEvent,
+    AbsorbDebt: generateAbsorbDebtEvent,
+    BuyCollateral: generateBuyCollateralEvent,
+  };
+
+  return {
+    // Events without a position to act on fall back to a supply, which opens one
+    generate(eventType) {
+      return generators[eventType]() ?? generateSupplyEvent();
+    },
+    getState() {
+      return ledger.getState();
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Plugin
+// ----------------------------------------------------------------------------
+
+export const compoundV3 = defineProtocol({
+  id: 'compound-v3',
+  name: 'Compound V3',
+  eventTypes: ['Supply', 'Withdraw', 'AbsorbDebt', 'BuyCollateral'],
+  schema: compoundEventSchema,
+  jsonSchemaDefs: {
+    CompoundSupplyEvent: compoundSupplyEventSchema,
+    CompoundWithdrawEvent: compoundWithdrawEventSchema,
+    CompoundAbsorbDebtEvent: compoundAbsorbDebtEventSchema,
+    CompoundBuyCollateralEvent: compoundBuyCollateralEventSchema,
+  },
+  attributes: {
+    ...COMMON_RULES,
+    market: STRING,
+    baseAsset: STRING,
+    user: STRING,
+    asset: STRING,
+    amount: AMOUNT,
+    amountUSD: USD,
+    dst: STRING,
+    to: STRING,
+    repaid: AMOUNT,
+    borrowed: AMOUNT,
+    absorber: STRING,
+    collateralAbsorbed: { kind: 'map', prefix: 'collateralAbsorbed', rule: AMOUNT },
+    collateralAbsorbedUSD: USD,
+    baseAmount: AMOUNT,
+    baseAmountUSD: USD,
+  },
+  defaultWeights: { Supply: 30, Withdraw: 25, AbsorbDebt: 2, BuyCollateral: 1 },
+
+  // Absorptions add the debt absorbed, in the base asset
+  contribution(event) {
+    return { user: event.user, volume: { asset: event.asset, usd: event.amountUSD } };
+  },
+  tradedVolume(event) {
+    if (event.eventType === 'BuyCollateral') {
+      return [
+        { asset: event.asset, usd: event.amountUSD },
+        { asset: event.baseAsset, usd: event.baseAmountUSD },
+      ];
+    }
+    return [{ asset: event.asset, usd: event.amountUSD }];
+  },
+  describe(event) {
+    return { asset: event.asset, user: event.user, usd: event.amountUSD };
+  },
+  liquidation(event) {
+    if (event.eventType !== 'AbsorbDebt') {
+      return undefined;
+    }
+    return {
+      user: event.user,
+      liquidator: event.absorber,
+      // The largest of the collateral absorbed
+      collateralAsset: Object.keys(event.collateralAbsorbed)[0] ?? event.baseAsset,
+      debtAsset: event.baseAsset,
+      debtCoveredUSD: Number(event.amountUSD),
+      collateralLiquidatedUSD: Number(event.collateralAbsorbedUSD),
+    };
+  },
+  checkScenario(scenario) {
+    if (!scenario.compound) {
+      return [{ path: ['compound'], message: 'Compound events need a compound market' }];
+    }
+    return Object.keys(scenario.compound.collateral).length === 0
+      ? [{ path: ['compound', 'collateral'], message: 'the market needs a collateral asset' }]
+      : [];
+  },
+
+  createSimulation(context, state) {
+    return createCompoundSimulation(context, state as CompoundLedgerState | undefined);
+  },
+});
@@ -0,0 +1,350 @@
+import { z } from 'zod';
+import { AMOUNT, COMMON_RULES, STRING, USD } from '../attribute-rules';
+import {
+  createCurvePools,
+  CURVE_POOL_ADDRESSES,
+  type CurvePool,
+  type CurvePoolConfig,
+  type CurvePoolsState,
+  type LiquidityChange,
+} from '../curve-pools';
+import { random } from '../random';
+import type { Scenario } from '../scenario';
+import {
+  addressSchema,
+  blockNumberSchema,
+  decimalSchema,
+  logIndexSchema,
+  runFields,
+  symbolSchema,
+  timestampSchema,
+  txHashSchema,
+} from '../schema-fields';
+import { formatAmount, randomElement, sampleAmount, type SimulationContext } from '../simulation';
+import { defineProtocol, type ProtocolSimulation } from './plugin';
+
+// ============================================================================
+// CURVE
+// ============================================================================
+
+// Fields shared by all Curve events: the pool they happened in and who acted
+const curvePoolFields = {
+  entityType: z.literal('protocol_event'),
+  protocol: z.literal('curve'),
+  network: z.string().min(1),
+  pool: addressSchema,
+  poolName: z.string().min(1),
+  // Buyer or liquidity provider
+  user: addressSchema,
+  txHash: txHashSchema,
+  logIndex: logIndexSchema,
+  blockNumber: blockNumberSchema,
+  timestamp: timestampSchema,
+  ...runFields,
+};
+
+// Liquidity events move every coin of the pool, keyed by symbol
+const liquidityFields = {
+  amounts: z.record(symbolSchema, decimalSchema),
+  amountUSD: decimalSchema,
+  // LP tokens minted or burned, and the LP supply after the event
+  lpAmount: decimalSchema,
+  lpSupply: decimalSchema,
+};
+
+export const curveTokenExchangeEventSchema = z
+  .strictObject({
+    ...curvePoolFields,
+    eventType: z.literal('TokenExchange'),
+    tokenIn: symbolSchema,
+    tokenOut: symbolSchema,
+    amountIn: decimalSchema,
+    amountOut: decimalSchema,
+    amountInUSD: decimalSchema,
+    amountOutUSD: decimalSchema,
+    // Fee kept by the pool, taken from the output
+    feeUSD: decimalSchema,
+  })
+  .superRefine((event, ctx) => {
+    if (event.tokenIn === event.tokenOut) {
+      ctx.addIssue({ code: 'custom', path: ['tokenOut'], message: 'must differ from tokenIn' });
+    }
+  });
+
+export const curveAddLiquidityEventSchema = z.strictObject({
+  ...curvePoolFields,
+  ...liquidityFields,
+  eventType: z.literal('AddLiquidity'),
+  // Fee paid on the part of the deposit that unbalances the pool
+  feeUSD: decimalSchema,
+});
+
+export const curveRemoveLiquidityEventSchema = z.strictObject({
+  ...curvePoolFields,
+  ...liquidityFields,
+  eventType: z.literal('RemoveLiquidity'),
+});
+
+export const curveEventSchema = z.discriminatedUnion('eventType', [
+  curveTokenExchangeEventSchema,
+  curveAddLiquidityEventSchema,
+  curveRemoveLiquidityEventSchema,
+]);
+
+type CurveEvent = z.infer<typeof curveEventSchema>;
+type CurveTokenExchangeEvent = z.infer<typeof curveTokenExchangeEventSchema>;
+type CurveAddLiquidityEvent = z.infer<typeof curveAddLiquidityEventSchema>;
+type CurveRemoveLiquidityEvent = z.infer<typeof curveRemoveLiquidityEventSchema>;
+
+export function scenarioCurvePools(scenario: Scenario): CurvePoolConfig[] {
+  return scenario.curvePools.map(({ name, coins, A, fee, address }) => ({
+    name,
+    coins,
+    A,
+    fee,
+    address: address ?? CURVE_POOL_ADDRESSES[coins.join('/')],
+  }));
+}
+
+// ----------------------------------------------------------------------------
+// Event generators
+// ----------------------------------------------------------------------------
+//
+// Exchanges and liquidity changes go through the simulated pools. A pool gets
+// its first liquidity from a balanced deposit; exchanges need a pool with
+// liquidity and withdrawals an LP holder.
+
+function createCurveSimulation(
+  context: SimulationContext,
+  state?: CurvePoolsState
+): ProtocolSimulation<CurveEvent> {
+  const { scenario, prices, calculateUSD } = context;
+  const configs = scenarioCurvePools(scenario);
+  // Balances and LP holders of the pools
+  const curvePools = createCurvePools(state);
+
+  function poolFields(pool: CurvePool) {
+    return {
+      entityType: 'protocol_event' as const,
+      protocol: 'curve' as const,
+      network: context.network,
+      pool: pool.address,
+      poolName: pool.name,
+    };
+  }
+
+  // USD value of coin amounts given in the order of the pool's coins
+  function valueUSD(pool: CurvePool, amounts: number[], timestamp: string): string {
+    const cents = pool.coins.reduce(
+      (sum, coin, k) =>
+        sum + Math.round(parseFloat(calculateUSD(formatAmount(amounts[k]), coin, timestamp)) * 100),
+      0
+    );
+    return (cents / 100).toFixed(2);
+  }
+
+  function liquidityFields(pool: CurvePool, change: LiquidityChange, timestamp: string) {
+    const amounts: Record<string, string> = {};
+    pool.coins.forEach((coin, k) => {
+      amounts[coin] = formatAmount(change.amounts[k]);
+    });
+    return {
+      amounts,
+      amountUSD: valueUSD(pool, change.amounts, timestamp),
+      lpAmount: formatAmount(change.lpAmount),
+      lpSupply: formatAmount(pool.lpSupply),
+    };
+  }
+
+  function generateTokenExchangeEvent(): CurveTokenExchangeEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const liquidPools = curvePools.pools().filter((pool) => pool.lpSupply > 0);
+    if (liquidPools.length === 0) {
+      return undefined;
+    }
+
+    const pool = randomElement(liquidPools);
+    const coins = pool.coins.map((_, k) => k);
+    let i: number;
+    let j: number;
+    // Arbitrageurs buy the coin the pool holds most of (it trades below 1:1
+    // there) with the one it holds least of; everyone else trades at random
+    if (random() < 0.5) {
+      const byBalance = [...coins].sort((a, b) => pool.balances[a] - pool.balances[b]);
+      [i, j] = [byBalance[0], byBalance[byBalance.length - 1]];
+    } else {
+      i = randomElement(coins);
+      j = randomElement(coins.filter((k) => k !== i));
+    }
+    const [tokenIn, tokenOut] = [pool.coins[i], pool.coins[j]];
+    // Trades stay well within the pool's balance of the coin bought
+    const amountIn = Math.min(
+      sampleAmount(scenario.amounts.swapUSD, random()) / prices.priceAt(tokenIn, timestamp),
+      pool.balances[j] * 0.5
+    );
+    const { amountOut, feeAmount } = curvePools.exchange(pool.name, i, j, amountIn);
+    const formattedIn = formatAmount(amountIn);
+    const formattedOut = formatAmount(amountOut);
+
+    return {
+      ...poolFields(pool),
+      eventType: 'TokenExchange',
+      user: context.randomUser('trade'),
+      tokenIn,
+      tokenOut,
+      amountIn: formattedIn,
+      amountOut: formattedOut,
+      amountInUSD: calculateUSD(formattedIn, tokenIn, timestamp),
+      amountOutUSD: calculateUSD(formattedOut, tokenOut, timestamp),
+      feeUSD: calculateUSD(formatAmount(feeAmount), tokenOut, timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateAddLiquidityEvent(): CurveAddLiquidityEvent {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const pool = curvePools.pool(randomElement(configs));
+    const user = context.randomUser();
+    const depositUSD = sampleAmount(scenario.amounts.mintUSD, random());
+    const total = pool.balances.reduce((sum, balance) => sum + balance, 0);
+
+    // The first deposit is balanced; later ones follow the pool's proportions
+    // or are single-sided
+    let weights: number[];
+    if (pool.lpSupply === 0) {
+      weights = pool.coins.map(() => 1 / pool.coins.length);
+    } else if (random() < 0.6) {
+      weights = pool.balances.map((balance) => balance / total);
+    } else {
+      const k = Math.floor(random() * pool.coins.length);
+      weights = pool.coins.map((_, m) => (m === k ? 1 : 0));
+    }
+    const amounts = pool.coins.map(
+      (coin, k) => (depositUSD * weights[k]) / prices.priceAt(coin, timestamp)
+    );
+    const change = curvePools.addLiquidity(pool.name, user, amounts);
+
+    return {
+      ...poolFields(pool),
+      eventType: 'AddLiquidity',
+      user,
+      ...liquidityFields(pool, change, timestamp),
+      feeUSD: valueUSD(pool, change.fees, timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateRemoveLiquidityEvent(): CurveRemoveLiquidityEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const holdings = curvePools
+      .pools()
+      .flatMap((pool) =>
+        Object.entries(pool.lpBalances).map(([user, lpBalance]) => ({ pool, user, lpBalance }))
+      );
+    if (holdings.length === 0) {
+      return undefined;
+    }
+
+    const { pool, user, lpBalance } = randomElement(holdings);
+    // Exit the whole position now and then, otherwise take part of it out
+    const lpAmount = random() < 0.4 ? lpBalance : lpBalance * (0.1 + random() * 0.8);
+    const change = curvePools.removeLiquidity(pool.name, user, lpAmount);
+
+    return {
+      ...poolFields(pool),
+      eventType: 'RemoveLiquidity',
+      user,
+      ...liquidityFields(pool, change, timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  const generators = {
+    TokenExchange: generateTokenExchangeEvent,
+    AddLiquidity: generateAddLiquidityEvent,
+    RemoveLiquidity: generateRemoveLiquidityEvent,
+  };
+
+  return {
+    // Events without a liquid pool or LP holder fall back to a deposit, which adds one
+    generate(eventType) {
+      return generators[eventType]() ?? generateAddLiquidityEvent();
+    },
+    getState() {
+      return curvePools.getState();
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Plugin
+// ----------------------------------------------------------------------------
+
+export const curve = defineProtocol({
+  id: 'curve',
+  name: 'Curve',
+  eventTypes: ['TokenExchange', 'AddLiquidity', 'RemoveLiquidity'],
+  schema: curveEventSchema,
+  jsonSchemaDefs: {
+    CurveTokenExchangeEvent: curveTokenExchangeEventSchema,
+    CurveAddLiquidityEvent: curveAddLiquidityEventSchema,
+    CurveRemoveLiquidityEvent: curveRemoveLiquidityEventSchema,
+  },
+  attributes: {
+    ...COMMON_RULES,
+    pool: STRING,
+    poolName: STRING,
+    user: STRING,
+    tokenIn: STRING,
+    tokenOut: STRING,
+    amountIn: AMOUNT,
+    amountOut: AMOUNT,
+    amountInUSD: USD,
+    amountOutUSD: USD,
+    feeUSD: USD,
+    amounts: { kind: 'map', prefix: 'amount', rule: AMOUNT },
+    amountUSD: USD,
+    lpAmount: AMOUNT,
+  },
+  defaultWeights: { TokenExchange: 16, AddLiquidity: 3, RemoveLiquidity: 1 },
+
+  // Exchanges count their input side; liquidity changes are not trading volume
+  contribution(event) {
+    if (event.eventType === 'TokenExchange') {
+      return { user: event.user, volume: { asset: event.tokenIn, usd: event.amountInUSD } };
+    }
+    return { user: event.user };
+  },
+  tradedVolume(event) {
+    if (event.eventType !== 'TokenExchange') {
+      return [];
+    }
+    return [
+      { asset: event.tokenIn, usd: event.amountInUSD },
+      { asset: event.tokenOut, usd: event.amountOutUSD },
+    ];
+  },
+  describe(event) {
+    return event.eventType === 'TokenExchange'
+      ? { asset: `${event.tokenIn}/${event.tokenOut}`, user: event.user, usd: event.amountInUSD }
+      : { asset: event.poolName, user: event.user, usd: event.amountUSD };
+  },
+  checkScenario(scenario) {
+    return scenario.curvePools.length === 0
+      ? [{ path: ['curvePools'], message: 'Curve events need at least one pool' }]
+      : [];
+  },
+
+  createSimulation(context, state) {
+    return createCurveSimulation(context, state as CurvePoolsState | undefined);
+  },
+});
@@ -0,0 +1,35 @@
+import { aaveV3 } from './aave-v3';
+import { compoundV3 } from './compound-v3';
+import { curve } from './curve';
+import { lido } from './lido';
+import type { ProtocolPlugin } from './plugin';
+import { uniswapV3 } from './uniswap-v3';
+
+// ============================================================================
+// PROTOCOL REGISTRY
+// ============================================================================
+//
+// The protocols the generators simulate. Adding one takes a plugin module
+// next to these (see lib/protocols/plugin.ts) and an entry here: the entity
+// schemas, attributes, scenarios, summaries, stats, schema export and the
+// generate loop all pick it up from this list. The order is the order of the
+// event weights: append new protocols, so seeded runs of scenarios that do not
+// use them stay as they were.
+
+export const PROTOCOLS = [aaveV3, uniswapV3, compoundV3, curve, lido] as const;
+
+export type RegisteredProtocol = (typeof PROTOCOLS)[number];
+export type ProtocolId = RegisteredProtocol['id'];
+
+export const PROTOCOL_IDS = PROTOCOLS.map(({ id }) => id) as [ProtocolId, ...ProtocolId[]];
+
+/**
+ * The plugin of a registered protocol.
+ */
+export function protocolPlugin(id: string): ProtocolPlugin {
+  const plugin = PROTOCOLS.find((candidate) => candidate.id === id);
+  if (!plugin) {
+    throw new Error(`Unknown protocol ${id} (known: ${PROTOCOL_IDS.join(', ')})`);
+  }
+  return plugin as ProtocolPlugin;
+}
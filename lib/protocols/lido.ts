@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { AMOUNT, COMMON_RULES, NUMBER, STRING, USD } from '../attribute-rules';
+import { createLidoStaking, type LidoStakingState } from '../lido-staking';
+import { random } from '../random';
+import {
+  addressSchema,
+  blockNumberSchema,
+  decimalSchema,
+  logIndexSchema,
+  runFields,
+  timestampSchema,
+  txHashSchema,
+} from '../schema-fields';
+import { formatAmount, randomElement, sampleAmount, type SimulationContext } from '../simulation';
+import { defineProtocol, type ProtocolSimulation } from './plugin';
+
+// ============================================================================
+// LIDO
+// ============================================================================
+
+// Ether and stETH are valued at the price of this scenario asset
+const ETHER_ASSET = 'WETH';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Largest stETH amount of one withdrawal request (Lido's MAX_STETH_WITHDRAWAL_AMOUNT)
+const MAX_WITHDRAWAL = 1000;
+// Smallest amount worth a withdrawal request
+const MIN_WITHDRAWAL = 0.001;
+
+// Fields shared by all Lido events: who acted and the ether or stETH moved
+const lidoFields = {
+  entityType: z.literal('protocol_event'),
+  protocol: z.literal('lido'),
+  network: z.string().min(1),
+  user: addressSchema,
+  amount: decimalSchema,
+  amountUSD: decimalSchema,
+  txHash: txHashSchema,
+  logIndex: logIndexSchema,
+  blockNumber: blockNumberSchema,
+  timestamp: timestampSchema,
+  ...runFields,
+};
+
+export const lidoSubmittedEventSchema = z.strictObject({
+  ...lidoFields,
+  eventType: z.literal('Submitted'),
+  // Referral address, the zero address without one
+  referral: addressSchema,
+  // stETH shares minted for the ether staked
+  shares: decimalSchema,
+});
+
+export const lidoWithdrawalRequestedEventSchema = z.strictObject({
+  ...lidoFields,
+  eventType: z.literal('WithdrawalRequested'),
+  requestId: z.number().int().positive(),
+  // Who can claim the request, usually the user
+  owner: addressSchema,
+  shares: decimalSchema,
+});
+
+export const lidoWithdrawalClaimedEventSchema = z.strictObject({
+  ...lidoFields,
+  eventType: z.literal('WithdrawalClaimed'),
+  requestId: z.number().int().positive(),
+  receiver: addressSchema,
+});
+
+export const lidoEventSchema = z.discriminatedUnion('eventType', [
+  lidoSubmittedEventSchema,
+  lidoWithdrawalRequestedEventSchema,
+  lidoWithdrawalClaimedEventSchema,
+]);
+
+type LidoEvent = z.infer<typeof lidoEventSchema>;
+type LidoSubmittedEvent = z.infer<typeof lidoSubmittedEventSchema>;
+type LidoWithdrawalRequestedEvent = z.infer<typeof lidoWithdrawalRequestedEventSchema>;
+type LidoWithdrawalClaimedEvent = z.infer<typeof lidoWithdrawalClaimedEventSchema>;
+
+// ----------------------------------------------------------------------------
+// Event generators
+// ----------------------------------------------------------------------------
+//
+// Lido events are driven by the staking pool: withdrawal requests need stETH
+// and claims a request that has been finalized. A generator returns undefined
+// when nothing allows its event right now.
+
+function createLidoSimulation(
+  context: SimulationContext,
+  state?: LidoStakingState
+): ProtocolSimulation<LidoEvent> {
+  const { scenario, prices, calculateUSD } = context;
+  // Pooled ether, stETH shares and the withdrawal queue
+  const staking = createLidoStaking(scenario.lido!, state);
+
+  function etherFields(amount: number, timestamp: string) {
+    return {
+      entityType: 'protocol_event' as const,
+      protocol: 'lido' as const,
+      network: context.network,
+      amount: formatAmount(amount),
+      amountUSD: calculateUSD(formatAmount(amount), ETHER_ASSET, timestamp),
+    };
+  }
+
+  function generateSubmittedEvent(): LidoSubmittedEvent {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    staking.accrue(timestamp);
+    const user = context.randomUser();
+    const amount =
+      sampleAmount(scenario.amounts.supplyUSD, random()) / prices.priceAt(ETHER_ASSET, timestamp);
+    const shares = staking.submit(user, amount);
+
+    return {
+      ...etherFields(amount, timestamp),
+      eventType: 'Submitted',
+      user,
+      referral: random() > 0.9 ? context.randomUser() : ZERO_ADDRESS,
+      shares: formatAmount(shares),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateWithdrawalRequestedEvent(): LidoWithdrawalRequestedEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    staking.accrue(timestamp);
+    const holders = staking.holders().filter((user) => staking.balanceOf(user) >= MIN_WITHDRAWAL);
+    if (holders.length === 0) {
+      return undefined;
+    }
+
+    const user = randomElement(holders);
+    const balance = staking.balanceOf(user);
+    // Unstake everything now and then, otherwise part of it
+    const amount = Math.min(
+      MAX_WITHDRAWAL,
+      random() < 0.3 ? balance : balance * (0.1 + random() * 0.8)
+    );
+    const owner = random() > 0.9 ? context.randomUser() : user;
+    const request = staking.requestWithdrawal(user, owner, amount, timestamp);
+
+    return {
+      ...etherFields(amount, timestamp),
+      eventType: 'WithdrawalRequested',
+      user,
+      requestId: request.requestId,
+      owner,
+      shares: formatAmount(request.amountOfShares),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateWithdrawalClaimedEvent(): LidoWithdrawalClaimedEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    staking.accrue(timestamp);
+    const claimable = staking.claimable(timestamp);
+    if (claimable.length === 0) {
+      return undefined;
+    }
+
+    const { requestId, owner } = randomElement(claimable);
+    const amount = staking.claim(requestId);
+
+    return {
+      ...etherFields(amount, timestamp),
+      eventType: 'WithdrawalClaimed',
+      user: owner,
+      requestId,
+      receiver: random() > 0.9 ? context.randomUser() : owner,
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  const generators = {
+    Submitted: generateSubmittedEvent,
+    WithdrawalRequested: generateWithdrawalRequestedEvent,
+    WithdrawalClaimed: generateWithdrawalClaimedEvent,
+  };
+
+  return {
+    // Events without stETH or a finalized request to act on fall back to a stake
+    generate(eventType) {
+      return generators[eventType]() ?? generateSubmittedEvent();
+    },
+    getState() {
+      return staking.getState();
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Plugin
+// ----------------------------------------------------------------------------
+
+export const lido = defineProtocol({
+  id: 'lido',
+  name: 'Lido',
+  eventTypes: ['Submitted', 'WithdrawalRequested', 'WithdrawalClaimed'],
+  schema: lidoEventSchema,
+  jsonSchemaDefs: {
+    LidoSubmittedEvent: lidoSubmittedEventSchema,
+    LidoWithdrawalRequestedEvent: lidoWithdrawalRequestedEventSchema,
+    LidoWithdrawalClaimedEvent: lidoWithdrawalClaimedEventSchema,
+  },
+  attributes: {
+    ...COMMON_RULES,
+    user: STRING,
+    amount: AMOUNT,
+    amountUSD: USD,
+    referral: STRING,
+    shares: AMOUNT,
+    requestId: NUMBER,
+    owner: STRING,
+    receiver: STRING,
+  },
+  defaultWeights: { Submitted: 10, WithdrawalRequested: 4, WithdrawalClaimed: 3 },
+  // Staking happens on Ethereum; other networks only have bridged wstETH
+  networks: ['ethereum'],
+
+  // Stakes and claims move ether in and out; requests only queue stETH and add no volume
+  contribution(event) {
+    if (event.eventType === 'WithdrawalRequested') {
+      return { user: event.user };
+    }
+    return { user: event.user, volume: { asset: ETHER_ASSET, usd: event.amountUSD } };
+  },
+  tradedVolume(event) {
+    return event.eventType === 'WithdrawalRequested'
+      ? []
+      : [{ asset: ETHER_ASSET, usd: event.amountUSD }];
+  },
+  describe(event) {
+    return {
+      asset: event.eventType === 'WithdrawalRequested' ? 'stETH' : 'ETH',
+      user: event.user,
+      usd: event.amountUSD,
+    };
+  },
+  checkScenario(scenario) {
+    const issues = [];
+    if (!scenario.lido) {
+      issues.push({ path: ['lido'], message: 'Lido events need lido staking parameters' });
+    }
+    if (!scenario.assets[ETHER_ASSET]) {
+      issues.push({ path: ['assets'], message: `Lido events need ${ETHER_ASSET} to value ether` });
+    }
+    return issues;
+  },
+
+  createSimulation(context, state) {
+    return createLidoSimulation(context, state as LidoStakingState | undefined);
+  },
+});
@@ -0,0 +1,109 @@
+import type { z } from 'zod';
+import type { AttributeRules } from '../attribute-rules';
+import type { DecodedLog, LogContext } from '../evm-logs';
+import type { NetworkId } from '../networks';
+import type { Scenario } from '../scenario';
+import type { SimulationContext } from '../simulation';
+import type { LiquidationPoint } from '../stats';
+
+// ============================================================================
+// PROTOCOL PLUGINS
+// ============================================================================
+//
+// Everything the generators and the tools around them know about a protocol
+// comes from its plugin: the event types and their schema, how the events are
+// indexed, summarized and shown, the default weights of the event types and
+// the simulation that generates them, and for some protocols how real logs
+// decode into them. Plugins are listed in the registry of
+// lib/protocols/index.ts, which the generate loop, the log ingestion, the
+// entity schemas, the stats and the schema export read from.
+
+// Fields every protocol event has, whatever its protocol
+export interface BaseProtocolEvent {
+  entityType: 'protocol_event';
+  protocol: string;
+  eventType: string;
+  network: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  timestamp: string;
+}
+
+// A USD amount of one asset, as a 2-decimal string
+export interface AssetVolume {
+  asset: string;
+  usd: string;
+}
+
+// The simulated state of a protocol in a generator run
+export interface ProtocolSimulation<E extends BaseProtocolEvent> {
+  // An event of `eventType`. When the simulated state does not allow one right
+  // now (e.g. a borrow without collateral), the event that builds that state.
+  generate(eventType: E['eventType']): E;
+  // Saved in checkpoints and handed back to createSimulation() on resume
+  getState(): unknown;
+}
+
+// How real logs of the protocol's contracts map into its events (see lib/log-ingest.ts)
+export interface ProtocolLogs<E extends BaseProtocolEvent> {
+  // Event fragments of the ABI of the contracts, e.g. 'event Withdraw(address indexed reserve, …)'
+  abi: readonly string[];
+  // The contract emitting the events on each network, when there is a single
+  // one (the Aave Pool); logs of any contract are taken on the other networks
+  contracts?: Partial<Record<NetworkId, string>>;
+  // The decoder of a log ingester, with what it caches for as long as the
+  // ingester lives; it maps a decoded log to its event, and throws an
+  // UnmappedLogError when it cannot be mapped
+  createDecoder(context: LogContext): (log: DecodedLog) => Promise<E>;
+}
+
+export interface ScenarioIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+export interface ProtocolPlugin<E extends BaseProtocolEvent = BaseProtocolEvent> {
+  // The `protocol` field of its events, e.g. 'aave-v3'
+  id: E['protocol'];
+  // Display name, e.g. 'Aave V3'
+  name: string;
+  eventTypes: readonly E['eventType'][];
+  // Validates every event of the protocol (see lib/schema.ts)
+  schema: z.ZodType<E>;
+  // The event schemas by the name they get in the JSON Schema export
+  jsonSchemaDefs: Record<string, z.ZodType>;
+  // How the fields of its events are indexed (see lib/attributes.ts)
+  attributes: AttributeRules;
+  // Weight of each event type within the protocol, unless the scenario gives its own
+  defaultWeights: Record<E['eventType'], number>;
+
+  // Who made the event and the volume it adds to summaries and stats, in the
+  // asset it is denominated in (none for events that are not trading volume)
+  contribution(event: E): { user: string; volume?: AssetVolume };
+  // USD amounts the event moved per asset, counted in the 24h volume of price snapshots
+  tradedVolume(event: E): AssetVolume[];
+  // Asset or pair, user and USD amount, for one-line listings
+  describe(event: E): { asset: string; user: string; usd: string };
+  // The liquidation an event stands for, for the liquidation timeline of the stats
+  liquidation?(event: E): Omit<LiquidationPoint, 'time' | 'blockNumber' | 'txHash'> | undefined;
+  // Problems with a scenario that gives the protocol a share of the mix
+  checkScenario?(scenario: Scenario): ScenarioIssue[];
+  // Source networks the protocol is on, when not all of them
+  networks?: readonly NetworkId[];
+  // Decoding of real logs, for the protocols that have it
+  logs?: ProtocolLogs<E>;
+
+  // Simulated state for a run, starting empty or from a saved state
+  createSimulation(context: SimulationContext, state?: unknown): ProtocolSimulation<E>;
+}
+
+/**
+ * Declare a plugin; only there to infer the event type from its schema
+ * while keeping the schema's own type for lib/schema.ts.
+ */
+export function defineProtocol<const S extends z.ZodType<BaseProtocolEvent>>(
+  plugin: ProtocolPlugin<z.infer<S>> & { schema: S }
+): ProtocolPlugin<z.infer<S>> & { schema: S } {
+  return plugin;
+}
@@ -0,0 +1,658 @@
+import { z } from 'zod';
+import { AMOUNT, COMMON_RULES, NUMBER, STRING, USD } from '../attribute-rules';
+import { formatTokenAmount, UnmappedLogError, type DecodedLog, type LogContext } from '../evm-logs';
+import type { NetworkId } from '../networks';
+import { random } from '../random';
+import type { Scenario } from '../scenario';
+import {
+  addressSchema,
+  blockNumberSchema,
+  decimalSchema,
+  integerStringSchema,
+  logIndexSchema,
+  runFields,
+  symbolSchema,
+  timestampSchema,
+  txHashSchema,
+} from '../schema-fields';
+import { formatAmount, randomElement, sampleAmount, type SimulationContext } from '../simulation';
+import { tokenInfo, TOKENS, type TokenInfo } from '../tokens';
+import {
+  createUniswapPools,
+  FEE_TIERS,
+  fullRangeTicks,
+  poolAddress,
+  poolKey,
+  toSqrtPriceX96,
+  type Pool,
+  type PoolKey,
+  type UniswapPoolsState,
+} from '../uniswap-pools';
+import { defineProtocol, type ProtocolSimulation } from './plugin';
+
+// ============================================================================
+// UNISWAP V3
+// ============================================================================
+
+// Fields shared by all Uniswap events: the pool they happened in
+const uniswapPoolFields = {
+  entityType: z.literal('protocol_event'),
+  protocol: z.literal('uniswap-v3'),
+  network: z.string().min(1),
+  pool: addressSchema,
+  token0: symbolSchema,
+  token1: symbolSchema,
+  // Fee tier in hundredths of a bip (500 = 0.05%)
+  fee: z.number().int().positive(),
+  txHash: txHashSchema,
+  logIndex: logIndexSchema,
+  blockNumber: blockNumberSchema,
+  timestamp: timestampSchema,
+  ...runFields,
+};
+
+// Liquidity events act on a position between two ticks
+const positionFields = {
+  owner: addressSchema,
+  tickLower: z.number().int(),
+  tickUpper: z.number().int(),
+  amount0: decimalSchema,
+  amount1: decimalSchema,
+  amountUSD: decimalSchema,
+};
+
+function checkPool(event: { token0: string; token1: string }, ctx: z.RefinementCtx): void {
+  if (event.token0 === event.token1) {
+    ctx.addIssue({ code: 'custom', path: ['token1'], message: 'must differ from token0' });
+  }
+}
+
+function checkPosition(
+  event: { token0: string; token1: string; tickLower: number; tickUpper: number },
+  ctx: z.RefinementCtx
+): void {
+  checkPool(event, ctx);
+  if (event.tickLower >= event.tickUpper) {
+    ctx.addIssue({ code: 'custom', path: ['tickUpper'], message: 'must be above tickLower' });
+  }
+}
+
+export const uniswapSwapEventSchema = z
+  .strictObject({
+    ...uniswapPoolFields,
+    eventType: z.literal('Swap'),
+    sender: addressSchema,
+    recipient: addressSchema,
+    tokenIn: symbolSchema,
+    tokenOut: symbolSchema,
+    amountIn: decimalSchema,
+    amountOut: decimalSchema,
+    amountInUSD: decimalSchema,
+    amountOutUSD: decimalSchema,
+    feeUSD: decimalSchema,
+    // Pool state after the swap
+    sqrtPriceX96: integerStringSchema,
+    liquidity: integerStringSchema,
+    tick: z.number().int(),
+  })
+  .superRefine((event, ctx) => {
+    checkPool(event, ctx);
+    const pair = [event.token0, event.token1];
+    if (!pair.includes(event.tokenIn)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['tokenIn'],
+        message: 'must be one of the pool tokens',
+      });
+    }
+    if (!pair.includes(event.tokenOut) || event.tokenOut === event.tokenIn) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['tokenOut'],
+        message: 'must be the other pool token',
+      });
+    }
+  });
+
+export const uniswapMintEventSchema = z
+  .strictObject({
+    ...uniswapPoolFields,
+    ...positionFields,
+    eventType: z.literal('Mint'),
+    sender: addressSchema,
+    liquidity: integerStringSchema,
+  })
+  .superRefine(checkPosition);
+
+export const uniswapBurnEventSchema = z
+  .strictObject({
+    ...uniswapPoolFields,
+    ...positionFields,
+    eventType: z.literal('Burn'),
+    liquidity: integerStringSchema,
+  })
+  .superRefine(checkPosition);
+
+export const uniswapCollectEventSchema = z
+  .strictObject({
+    ...uniswapPoolFields,
+    ...positionFields,
+    eventType: z.literal('Collect'),
+    recipient: addressSchema,
+  })
+  .superRefine(checkPosition);
+
+export const uniswapEventSchema = z.discriminatedUnion('eventType', [
+  uniswapSwapEventSchema,
+  uniswapMintEventSchema,
+  uniswapBurnEventSchema,
+  uniswapCollectEventSchema,
+]);
+
+type UniswapEvent = z.infer<typeof uniswapEventSchema>;
+type UniswapSwapEvent = z.infer<typeof uniswapSwapEventSchema>;
+type UniswapMintEvent = z.infer<typeof uniswapMintEventSchema>;
+type UniswapBurnEvent = z.infer<typeof uniswapBurnEventSchema>;
+type UniswapCollectEvent = z.infer<typeof uniswapCollectEventSchema>;
+
+export function scenarioPools(scenario: Scenario): PoolKey[] {
+  return scenario.pools.map(({ token0, token1, fee }) => poolKey(token0, token1, fee));
+}
+
+// ----------------------------------------------------------------------------
+// Event generators
+// ----------------------------------------------------------------------------
+//
+// Swaps and liquidity changes go through the simulated pools. A pool is
+// created at the market price by its first Mint; swaps need a pool with
+// liquidity in range, burns an open position and collects something owed.
+
+function createUniswapSimulation(
+  context: SimulationContext,
+  state?: UniswapPoolsState
+): ProtocolSimulation<UniswapEvent> {
+  const { scenario, prices, calculateUSD } = context;
+  // The pools the swaps and liquidity events go through
+  const pools = scenarioPools(scenario);
+  // Their price, liquidity and LP positions
+  const uniswapPools = createUniswapPools(state);
+
+  // Market price of token0 in token1, the price arbitrageurs pull the pool towards
+  function marketPrice(key: PoolKey, timestamp: string): number {
+    return prices.priceAt(key.token0, timestamp) / prices.priceAt(key.token1, timestamp);
+  }
+
+  // USD value of a pair of pool token amounts at `timestamp`
+  function pairUSD(pool: Pool, amount0: string, amount1: string, timestamp: string): string {
+    const usd =
+      parseFloat(calculateUSD(amount0, pool.token0, timestamp)) +
+      parseFloat(calculateUSD(amount1, pool.token1, timestamp));
+    return usd.toFixed(2);
+  }
+
+  function poolFields(pool: Pool) {
+    return {
+      entityType: 'protocol_event' as const,
+      protocol: 'uniswap-v3' as const,
+      network: context.network,
+      pool: pool.address,
+      token0: pool.token0,
+      token1: pool.token1,
+      fee: pool.fee,
+    };
+  }
+
+  function generateSwapEvent(): UniswapSwapEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const liquidPools = uniswapPools.pools().filter((pool) => pool.liquidity > 0);
+    if (liquidPools.length === 0) {
+      return undefined;
+    }
+
+    const pool = randomElement(liquidPools);
+    const target = marketPrice(pool, timestamp);
+    const drift = uniswapPools.price(pool.id) / target - 1;
+    let zeroForOne: boolean;
+    let amountIn: number;
+    let priceLimit: number | undefined;
+
+    // Arbitrageurs close price gaps wider than the fee; everyone else trades at
+    // random with a 1% price-impact limit, which fills less in thin pools
+    if (Math.abs(drift) > (2 * pool.fee) / 1_000_000 && random() < 0.5) {
+      zeroForOne = drift > 0;
+      amountIn = Infinity;
+      priceLimit = target;
+    } else {
+      zeroForOne = random() < 0.5;
+      amountIn =
+        sampleAmount(scenario.amounts.swapUSD, random()) /
+        prices.priceAt(zeroForOne ? pool.token0 : pool.token1, timestamp);
+      priceLimit = uniswapPools.price(pool.id) * (zeroForOne ? 0.99 : 1.01);
+    }
+
+    const swap = uniswapPools.swap(pool.id, zeroForOne, amountIn, priceLimit);
+    if (swap.amountIn === 0) {
+      return undefined;
+    }
+    const [tokenIn, tokenOut] = zeroForOne
+      ? [pool.token0, pool.token1]
+      : [pool.token1, pool.token0];
+    const formattedIn = formatAmount(swap.amountIn);
+    const formattedOut = formatAmount(swap.amountOut);
+
+    return {
+      ...poolFields(pool),
+      eventType: 'Swap',
+      sender: context.randomUser('trade'),
+      recipient: context.randomUser('trade'),
+      tokenIn,
+      tokenOut,
+      amountIn: formattedIn,
+      amountOut: formattedOut,
+      amountInUSD: calculateUSD(formattedIn, tokenIn, timestamp),
+      amountOutUSD: calculateUSD(formattedOut, tokenOut, timestamp),
+      feeUSD: calculateUSD(formatAmount(swap.feeAmount), tokenIn, timestamp),
+      sqrtPriceX96: toSqrtPriceX96(pool.sqrtPrice),
+      liquidity: BigInt(Math.round(pool.liquidity)).toString(),
+      tick: pool.tick,
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateMintEvent(): UniswapMintEvent {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const key = randomElement(pools);
+    const pool = uniswapPools.initialize(key, marketPrice(key, timestamp));
+    const owner = context.randomUser();
+
+    // Some LPs go full range, most concentrate within 0.5-30% of the current price
+    let tickLower: number;
+    let tickUpper: number;
+    if (random() < 0.2) {
+      [tickLower, tickUpper] = fullRangeTicks(pool.tickSpacing);
+    } else {
+      const width = Math.log(1.005 + random() * 0.3) / Math.log(1.0001);
+      tickLower = Math.floor((pool.tick - width) / pool.tickSpacing) * pool.tickSpacing;
+      tickUpper = Math.ceil((pool.tick + width) / pool.tickSpacing) * pool.tickSpacing;
+    }
+
+    // Size the position by value: price one unit of liquidity, then scale
+    const unit = uniswapPools.amountsForLiquidity(pool.id, tickLower, tickUpper, 1);
+    const unitUSD =
+      unit.amount0 * prices.priceAt(pool.token0, timestamp) +
+      unit.amount1 * prices.priceAt(pool.token1, timestamp);
+    const liquidity = Math.round(sampleAmount(scenario.amounts.mintUSD, random()) / unitUSD);
+    const { amount0, amount1 } = uniswapPools.mint(pool.id, owner, tickLower, tickUpper, liquidity);
+
+    return {
+      ...poolFields(pool),
+      eventType: 'Mint',
+      sender: owner,
+      owner,
+      tickLower,
+      tickUpper,
+      liquidity: BigInt(liquidity).toString(),
+      amount0: formatAmount(amount0),
+      amount1: formatAmount(amount1),
+      amountUSD: pairUSD(pool, formatAmount(amount0), formatAmount(amount1), timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateBurnEvent(): UniswapBurnEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    const positions = uniswapPools
+      .pools()
+      .flatMap((pool) =>
+        pool.positions
+          .filter(({ liquidity }) => liquidity > 0)
+          .map((position) => ({ pool, position }))
+      );
+    if (positions.length === 0) {
+      return undefined;
+    }
+
+    const { pool, position } = randomElement(positions);
+    const { owner, tickLower, tickUpper } = position;
+    // Close the whole position now and then, otherwise take part of it out
+    const liquidity =
+      random() < 0.4 ? position.liquidity : Math.round(position.liquidity * (0.1 + random() * 0.8));
+    const { amount0, amount1 } = uniswapPools.burn(pool.id, owner, tickLower, tickUpper, liquidity);
+
+    return {
+      ...poolFields(pool),
+      eventType: 'Burn',
+      owner,
+      tickLower,
+      tickUpper,
+      liquidity: BigInt(liquidity).toString(),
+      amount0: formatAmount(amount0),
+      amount1: formatAmount(amount1),
+      amountUSD: pairUSD(pool, formatAmount(amount0), formatAmount(amount1), timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  function generateCollectEvent(): UniswapCollectEvent | undefined {
+    const blockNumber = context.nextBlock();
+    const timestamp = context.timestamp();
+    // Positions owed at least $1 in fees or burned liquidity
+    const owed = uniswapPools.pools().flatMap((pool) =>
+      pool.positions
+        .filter((position) => {
+          const { amount0, amount1 } = uniswapPools.owed(pool.id, position);
+          return (
+            amount0 * prices.priceAt(pool.token0, timestamp) +
+              amount1 * prices.priceAt(pool.token1, timestamp) >=
+            1
+          );
+        })
+        .map((position) => ({ pool, position }))
+    );
+    if (owed.length === 0) {
+      return undefined;
+    }
+
+    const { pool, position } = randomElement(owed);
+    const { owner, tickLower, tickUpper } = position;
+    const { amount0, amount1 } = uniswapPools.collect(pool.id, owner, tickLower, tickUpper);
+
+    return {
+      ...poolFields(pool),
+      eventType: 'Collect',
+      owner,
+      recipient: random() > 0.9 ? context.randomUser() : owner,
+      tickLower,
+      tickUpper,
+      amount0: formatAmount(amount0),
+      amount1: formatAmount(amount1),
+      amountUSD: pairUSD(pool, formatAmount(amount0), formatAmount(amount1), timestamp),
+      ...context.nextLog(),
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  const generators = {
+    Swap: generateSwapEvent,
+    Mint: generateMintEvent,
+    Burn: generateBurnEvent,
+    Collect: generateCollectEvent,
+  };
+
+  return {
+    // Events without a liquid pool or position fall back to a mint, which adds one
+    generate(eventType) {
+      return generators[eventType]() ?? generateMintEvent();
+    },
+    getState() {
+      return uniswapPools.getState();
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Logs
+// ----------------------------------------------------------------------------
+//
+// Events of Uniswap V3 pool contracts, every pool emitting its own. Amounts
+// are raw integers in the units of the pool tokens; swap amounts are signed,
+// positive for the token going into the pool.
+
+const UNISWAP_POOL_ABI = [
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Collect(address indexed owner, address recipient, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount0, uint128 amount1)',
+];
+
+// The Uniswap V3 factory of each network. Forks (SushiSwap, PancakeSwap...)
+// deploy pools emitting the same events from factories of their own.
+const UNISWAP_V3_FACTORIES: Record<NetworkId, string> = {
+  ethereum: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+  arbitrum: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+  optimism: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+  base: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+  polygon: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+};
+
+interface PoolInfo {
+  token0: TokenInfo;
+  token1: TokenInfo;
+  fee: number;
+}
+
+// Decodes the logs of Uniswap V3 pools for one ingester, whose scenario
+// tokens are registered by then
+function createUniswapDecoder(context: LogContext) {
+  // Mainnet pools of every pair of known tokens in every fee tier, by
+  // lowercase address; made on first use
+  let knownPools: Map<string, PoolKey> | undefined;
+
+  function knownPool(address: string): PoolKey | undefined {
+    if (!knownPools) {
+      knownPools = new Map();
+      const symbols = Object.keys(TOKENS);
+      for (const [i, tokenA] of symbols.entries()) {
+        for (const tokenB of symbols.slice(i + 1)) {
+          for (const fee of Object.keys(FEE_TIERS).map(Number)) {
+            const key = poolKey(tokenA, tokenB, fee);
+            knownPools.set(poolAddress(key).toLowerCase(), key);
+          }
+        }
+      }
+    }
+    return knownPools.get(address.toLowerCase());
+  }
+
+  // Tokens and fee tier of the pool that emitted `log`: a known mainnet pool
+  // (its address derives from the factory), or read from a pool contract
+  // made by the network's Uniswap V3 factory
+  async function poolOf({ address, network }: DecodedLog): Promise<PoolInfo> {
+    const key = network === 'ethereum' ? knownPool(address) : undefined;
+    if (key) {
+      return { token0: tokenInfo(key.token0), token1: tokenInfo(key.token1), fee: key.fee };
+    }
+    const factory = (await context.call(
+      address,
+      'function factory() view returns (address)'
+    )) as string;
+    if (factory.toLowerCase() !== UNISWAP_V3_FACTORIES[network].toLowerCase()) {
+      throw new UnmappedLogError(`${address} is not a Uniswap V3 pool (factory ${factory})`);
+    }
+    const [token0, token1, fee] = await Promise.all([
+      context.call(address, 'function token0() view returns (address)'),
+      context.call(address, 'function token1() view returns (address)'),
+      context.call(address, 'function fee() view returns (uint24)'),
+    ]);
+    return {
+      token0: await context.token(token0 as string),
+      token1: await context.token(token1 as string),
+      fee: Number(fee),
+    };
+  }
+
+  return async (log: DecodedLog) => decodeUniswapLog(log, await poolOf(log), context);
+}
+
+async function decodeUniswapLog(
+  log: DecodedLog,
+  { token0, token1, fee }: PoolInfo,
+  context: LogContext
+): Promise<UniswapEvent> {
+  const poolFields = {
+    entityType: 'protocol_event' as const,
+    protocol: 'uniswap-v3' as const,
+    network: log.network,
+    pool: log.address,
+    token0: token0.symbol,
+    token1: token1.symbol,
+    fee,
+  };
+  const logFields = {
+    txHash: log.txHash,
+    logIndex: log.logIndex,
+    blockNumber: log.blockNumber,
+    timestamp: log.timestamp,
+  };
+
+  if (log.name === 'Swap') {
+    const args = log.args as {
+      sender: string;
+      recipient: string;
+      amount0: bigint;
+      amount1: bigint;
+      sqrtPriceX96: bigint;
+      liquidity: bigint;
+      tick: bigint;
+    };
+    const zeroForOne = args.amount0 > 0n;
+    const [tokenIn, tokenOut] = zeroForOne ? [token0, token1] : [token1, token0];
+    const [rawIn, rawOut] = zeroForOne
+      ? [args.amount0, -args.amount1]
+      : [args.amount1, -args.amount0];
+    const amountIn = formatTokenAmount(rawIn, tokenIn);
+    const amountOut = formatTokenAmount(rawOut, tokenOut);
+    // The fee tier is charged on the input
+    const feeAmount = formatTokenAmount((rawIn * BigInt(fee)) / 1_000_000n, tokenIn);
+    return {
+      ...poolFields,
+      eventType: 'Swap',
+      sender: args.sender,
+      recipient: args.recipient,
+      tokenIn: tokenIn.symbol,
+      tokenOut: tokenOut.symbol,
+      amountIn,
+      amountOut,
+      amountInUSD: context.calculateUSD(amountIn, tokenIn.symbol),
+      amountOutUSD: context.calculateUSD(amountOut, tokenOut.symbol),
+      feeUSD: context.calculateUSD(feeAmount, tokenIn.symbol),
+      sqrtPriceX96: args.sqrtPriceX96.toString(),
+      liquidity: args.liquidity.toString(),
+      tick: Number(args.tick),
+      ...logFields,
+    };
+  }
+
+  const args = log.args as {
+    sender?: string;
+    owner: string;
+    recipient?: string;
+    tickLower: bigint;
+    tickUpper: bigint;
+    amount?: bigint;
+    amount0: bigint;
+    amount1: bigint;
+  };
+  const amount0 = formatTokenAmount(args.amount0, token0);
+  const amount1 = formatTokenAmount(args.amount1, token1);
+  const position = {
+    ...poolFields,
+    owner: args.owner,
+    tickLower: Number(args.tickLower),
+    tickUpper: Number(args.tickUpper),
+    amount0,
+    amount1,
+    amountUSD: (
+      parseFloat(context.calculateUSD(amount0, token0.symbol)) +
+      parseFloat(context.calculateUSD(amount1, token1.symbol))
+    ).toFixed(2),
+    ...logFields,
+  };
+
+  switch (log.name) {
+    case 'Mint':
+      return {
+        ...position,
+        eventType: 'Mint',
+        sender: args.sender!,
+        liquidity: args.amount!.toString(),
+      };
+    case 'Burn':
+      return { ...position, eventType: 'Burn', liquidity: args.amount!.toString() };
+    case 'Collect':
+      return { ...position, eventType: 'Collect', recipient: args.recipient! };
+    default:
+      throw new UnmappedLogError(`no Uniswap event ${log.name}`);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Plugin
+// ----------------------------------------------------------------------------
+
+export const uniswapV3 = defineProtocol({
+  id: 'uniswap-v3',
+  name: 'Uniswap V3',
+  eventTypes: ['Swap', 'Mint', 'Burn', 'Collect'],
+  schema: uniswapEventSchema,
+  jsonSchemaDefs: {
+    UniswapSwapEvent: uniswapSwapEventSchema,
+    UniswapMintEvent: uniswapMintEventSchema,
+    UniswapBurnEvent: uniswapBurnEventSchema,
+    UniswapCollectEvent: uniswapCollectEventSchema,
+  },
+  attributes: {
+    ...COMMON_RULES,
+    pool: STRING,
+    token0: STRING,
+    token1: STRING,
+    fee: NUMBER,
+    sender: STRING,
+    recipient: STRING,
+    owner: STRING,
+    tokenIn: STRING,
+    tokenOut: STRING,
+    amountIn: AMOUNT,
+    amountOut: AMOUNT,
+    amountInUSD: USD,
+    amountOutUSD: USD,
+    feeUSD: USD,
+    amount0: AMOUNT,
+    amount1: AMOUNT,
+    amountUSD: USD,
+  },
+  defaultWeights: { Swap: 16, Mint: 2, Burn: 1, Collect: 1 },
+
+  // Swaps count their input side; liquidity changes move tokens in and out of
+  // pools but are not trading volume
+  contribution(event) {
+    if (event.eventType === 'Swap') {
+      return { user: event.sender, volume: { asset: event.tokenIn, usd: event.amountInUSD } };
+    }
+    return { user: event.owner };
+  },
+  tradedVolume(event) {
+    if (event.eventType !== 'Swap') {
+      return [];
+    }
+    return [
+      { asset: event.tokenIn, usd: event.amountInUSD },
+      { asset: event.tokenOut, usd: event.amountOutUSD },
+    ];
+  },
+  describe(event) {
+    return event.eventType === 'Swap'
+      ? { asset: `${event.token0}/${event.token1}`, user: event.sender, usd: event.amountInUSD }
+      : { asset: `${event.token0}/${event.token1}`, user: event.owner, usd: event.amountUSD };
+  },
+  logs: { abi: UNISWAP_POOL_ABI, createDecoder: createUniswapDecoder },
+  checkScenario(scenario) {
+    return scenario.pools.length === 0
+      ? [{ path: ['pools'], message: 'Uniswap events need at least one pool' }]
+      : [];
+  },
+
+  createSimulation(context, state) {
+    return createUniswapSimulation(context, state as UniswapPoolsState | undefined);
+  },
+});
@@ -0,0 +1,97 @@
+import { randomBytes } from 'node:crypto';
+
+// ============================================================================
+// SEEDED RANDOMNESS
+// ============================================================================
+//
+// Every random value the generators produce goes through the PRNG in this
+// module, so the same seed always yields the same sequence. The generator is
+// sfc32 seeded via the cyrb128 string hash: its whole state is four 32-bit
+// integers, which keeps it cheap to snapshot and restore.
+
+export type RandomState = [number, number, number, number];
+
+// Hash an arbitrary seed string into four 32-bit words (cyrb128)
+function hashSeed(seed: string): RandomState {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * Create a fresh seed for runs that were not given one explicitly.
+ */
+export function createSeed(): string {
+  return randomBytes(8).toString('hex');
+}
+
+let currentSeed = createSeed();
+let state: RandomState = hashSeed(currentSeed);
+
+/**
+ * Reset the PRNG so the following values are derived from `seed`.
+ */
+export function seedRandom(seed: string): void {
+  currentSeed = seed;
+  state = hashSeed(seed);
+}
+
+/**
+ * The seed the current sequence was started from.
+ */
+export function getSeed(): string {
+  return currentSeed;
+}
+
+/**
+ * Next value in [0, 1), a drop-in replacement for Math.random().
+ */
+export function random(): number {
+  let [a, b, c, d] = state;
+  const t = (((a + b) | 0) + d) | 0;
+  d = (d + 1) | 0;
+  a = b ^ (b >>> 9);
+  b = (c + (c << 3)) | 0;
+  c = (c << 21) | (c >>> 11);
+  c = (c + t) | 0;
+  state = [a >>> 0, b >>> 0, c >>> 0, d >>> 0];
+  return (t >>> 0) / 4294967296;
+}
+
+/**
+ * Integer in [min, max).
+ */
+export function randomInt(min: number, max: number): number {
+  return min + Math.floor(random() * (max - min));
+}
+
+/**
+ * Copy of the internal PRNG state, e.g. for checkpointing a run.
+ */
+export function getRandomState(): RandomState {
+  return [...state];
+}
+
+/**
+ * Restore a state previously returned by getRandomState().
+ */
+export function setRandomState(next: RandomState): void {
+  state = [...next];
+}
@@ -0,0 +1,131 @@
+// ============================================================================
+// RETRY POLICY AND FAILURE CLASSIFICATION
+// ============================================================================
+
+export type FailureKind = 'transient' | 'permanent';
+
+export interface FailureClassification {
+  kind: FailureKind;
+  reason: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 15_000,
+};
+
+// Checked in order against the messages of the error and its causes. viem
+// messages embed the RPC URL, so patterns avoid generic words like "network".
+const FAILURE_PATTERNS: { pattern: RegExp; kind: FailureKind; reason: string }[] = [
+  {
+    pattern:
+      /nonce too low|nonce has already been used|replacement transaction underpriced|already known/i,
+    kind: 'transient',
+    reason: 'nonce',
+  },
+  { pattern: /insufficient funds/i, kind: 'permanent', reason: 'insufficient-funds' },
+  { pattern: /execution reverted/i, kind: 'permanent', reason: 'reverted' },
+  { pattern: /timed out|timeout|ETIMEDOUT/i, kind: 'transient', reason: 'timeout' },
+  {
+    pattern: /rate limit|too many requests|limit exceeded|Status: 429/i,
+    kind: 'transient',
+    reason: 'rate-limit',
+  },
+  {
+    pattern: /ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|fetch failed|Status: 50[234]/i,
+    kind: 'transient',
+    reason: 'connection',
+  },
+  {
+    pattern: /invalid|oversized|too large|intrinsic gas too low/i,
+    kind: 'permanent',
+    reason: 'invalid',
+  },
+];
+
+function errorMessages(error: unknown): string[] {
+  const messages: string[] = [];
+  let current: unknown = error;
+  // viem wraps RPC errors several levels deep, so walk the cause chain
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (current instanceof Error) {
+      messages.push(`${current.name}: ${current.message}`);
+      current = current.cause;
+    } else {
+      messages.push(String(current));
+      break;
+    }
+  }
+  return messages;
+}
+
+/**
+ * Decide whether a failed write is worth retrying. Unrecognized errors are
+ * treated as permanent so a broken entity cannot retry forever.
+ */
+export function classifyError(error: unknown): FailureClassification {
+  const messages = errorMessages(error);
+  for (const { pattern, kind, reason } of FAILURE_PATTERNS) {
+    if (messages.some((message) => pattern.test(message))) {
+      return { kind, reason };
+    }
+  }
+  return { kind: 'permanent', reason: 'unknown' };
+}
+
+/**
+ * Thrown by withRetry() once an operation has failed for good.
+ */
+export class WriteFailedError extends Error {
+  constructor(
+    readonly classification: FailureClassification,
+    readonly attempts: number,
+    options: { cause: unknown }
+  ) {
+    const cause = options.cause instanceof Error ? options.cause.message : String(options.cause);
+    super(
+      `${classification.kind} failure (${classification.reason}) after ${attempts} attempt(s): ${cause}`,
+      options
+    );
+    this.name = 'WriteFailedError';
+  }
+}
+
+/**
+ * Exponential backoff with full jitter. Jitter uses Math.random() on purpose:
+ * it must not consume values from the seeded generator PRNG.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run `operation`, retrying transient failures according to `policy`.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (attempt: number, delayMs: number, classification: FailureClassification) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const classification = classifyError(error);
+      if (classification.kind === 'permanent' || attempt >= policy.maxAttempts) {
+        throw new WriteFailedError(classification, attempt, { cause: error });
+      }
+      const delayMs = backoffDelay(attempt, policy);
+      onRetry?.(attempt, delayMs, classification);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+// ============================================================================
+// RUN TAGS
+// ============================================================================
+//
+// Every generated entity is tagged with the run that pushed it, so datasets
+// from different experiments can be told apart and removed (the purge command):
+//
+// - runId: unique per run, kept when a run is resumed from its checkpoint
+// - generatorVersion: the generator script and the package version
+// - configHash: hash of the settings the entities depend on, equal for runs
+//   that generate the same entities; with the seed, it identifies the dataset
+//   of an explicitly seeded run across its reruns
+
+export interface RunTags {
+  runId: string;
+  generatorVersion: string;
+  configHash: string;
+}
+
+const { version } = JSON.parse(
+  readFileSync(new URL('../package.json', import.meta.url), 'utf8')
+) as { version: string };
+
+/**
+ * A new run id: the UTC start time plus random hex, e.g. 20240301-142233-3f9c2a.
+ * Not drawn from the seeded PRNG, so seeded datasets stay reproducible.
+ */
+export function createRunId(now = new Date()): string {
+  const time = now.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+  return `${time}-${randomBytes(3).toString('hex')}`;
+}
+
+// JSON with sorted object keys, so the hash does not depend on key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Short SHA-256 hash of a run config (16 hex digits).
+ */
+export function hashConfig(config: object): string {
+  return createHash('sha256').update(canonicalJson(config)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Tags for a run of `generator` (e.g. 'event-generator-v2', the generate command).
+ */
+export function runTags(generator: string, runId: string, config: object): RunTags {
+  return { runId, generatorVersion: `${generator}@${version}`, configHash: hashConfig(config) };
+}
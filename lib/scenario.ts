@@ -0,0 +1,558 @@
+import { getAddress, isAddress } from 'ethers';
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { COMET_ADDRESSES } from './compound-ledger';
+import { CURVE_POOL_ADDRESSES } from './curve-pools';
+import { NETWORK_IDS, SOURCE_NETWORKS, type NetworkId, type SourceNetwork } from './networks';
+import type { AssetMarket } from './price-simulator';
+import { PROTOCOLS, type ProtocolId } from './protocols';
+import { addressSchema } from './schema-fields';
+import { registerToken, TOKENS } from './tokens';
+import { FEE_TIERS } from './uniswap-pools';
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+//
+// A scenario is the market the generate command simulates: the assets with
+// their prices and decimals, the user population, the Uniswap and Curve pools,
+// the Compound market and Lido staking, the source networks events come from,
+// how often each entity type and event type comes up and how large trades are.
+// Scenarios are JSON or YAML files, validated on load; the presets in
+// scenarios/ can be used by name (`--scenario high-volume`).
+
+export const SCENARIO_PRESETS = [
+  'default',
+  'quiet-market',
+  'high-volume',
+  'stablecoin-only',
+  'aave-only',
+  'multi-protocol',
+  'multi-network',
+];
+
+const positive = z.number().positive();
+const weight = z.number().nonnegative();
+
+const reserveSchema = z
+  .strictObject({
+    ltv: z.number().gt(0).lt(1),
+    liquidationThreshold: z.number().gt(0).lt(1),
+    liquidationBonus: z.number().gt(1).lt(2),
+  })
+  .refine(({ ltv, liquidationThreshold }) => ltv < liquidationThreshold, {
+    message: 'ltv must be below liquidationThreshold',
+  });
+
+const assetSchema = z.strictObject({
+  // Starting price in USD
+  price: positive,
+  decimals: z.number().int().min(0).max(36),
+  // Annualized volatility of the price path
+  volatility: weight.default(0),
+  // Stablecoins stay within a fraction of a cent of their price
+  pegged: z.boolean().optional(),
+  circulatingSupply: positive,
+  // Mainnet address; only needed for tokens lib/tokens.ts does not know
+  address: addressSchema.optional(),
+  // Aave V3 risk parameters; assets without them are not Aave reserves
+  aave: reserveSchema.optional(),
+});
+
+const poolSchema = z.strictObject({
+  token0: z.string().min(1),
+  token1: z.string().min(1),
+  fee: z.number().refine((fee) => fee in FEE_TIERS, {
+    message: `fee must be one of ${Object.keys(FEE_TIERS).join(', ')}`,
+  }),
+});
+
+// Compound V3 market: its base asset and collateral assets with their risk parameters
+const cometCollateralSchema = z
+  .strictObject({
+    borrowCollateralFactor: z.number().gt(0).lt(1),
+    liquidateCollateralFactor: z.number().gt(0).lt(1),
+    liquidationFactor: z.number().gt(0).lt(1),
+  })
+  .refine(
+    ({ borrowCollateralFactor, liquidateCollateralFactor }) =>
+      borrowCollateralFactor < liquidateCollateralFactor,
+    { message: 'borrowCollateralFactor must be below liquidateCollateralFactor' }
+  );
+
+const compoundSchema = z.strictObject({
+  base: z.string().min(1),
+  // Mainnet address of the Comet proxy; only needed for bases without a known market
+  address: addressSchema.optional(),
+  collateral: z.record(z.string().min(1), cometCollateralSchema),
+  storeFrontPriceFactor: z.number().gt(0).max(1).default(0.5),
+});
+
+// Curve StableSwap pool of coins that trade near 1:1
+const curvePoolSchema = z.strictObject({
+  name: z.string().min(1),
+  coins: z.array(z.string().min(1)).min(2).max(4),
+  A: z.number().int().min(1).max(10000),
+  // Fee on exchange outputs, as a fraction (0.0001 = 0.01%)
+  fee: z.number().min(0).max(0.01),
+  // Mainnet address; only needed for pools lib/curve-pools.ts does not know
+  address: addressSchema.optional(),
+});
+
+const lidoSchema = z.strictObject({
+  // Staking rewards a year, as a fraction
+  apr: z.number().min(0).max(1),
+  // Delay between a withdrawal request and when it can be claimed
+  finalizationHours: z.number().nonnegative(),
+});
+
+// Users derived from a seed (lib/users.ts) instead of listed
+const populationSchema = z.strictObject({
+  // Regular users, who lend, trade, provide liquidity and stake
+  size: z.number().int().min(2),
+  // How unevenly active they are (Zipf exponent): 0 for evenly, about 1 for a few whales
+  activitySkew: z.number().min(0).max(3).default(1.1),
+  // Bots that make the liquidations
+  liquidators: z.number().int().nonnegative().default(3),
+  // Bots that make `arbitrageShare` of the trades
+  arbitrageurs: z.number().int().nonnegative().default(5),
+  arbitrageShare: z.number().min(0).max(1).default(0.3),
+  // Addresses are derived from it; the scenario name by default
+  seed: z.string().min(1).optional(),
+});
+
+// Listed users must be valid EIP-55 addresses, and are used checksummed
+const userSchema = addressSchema
+  .refine((address) => isAddress(address), 'invalid EIP-55 checksum')
+  .transform((address) => getAddress(address));
+
+// A source network of the protocol events: its share of them and the scenario
+// assets deployed on it
+const networkSchema = z.strictObject({
+  // By default the network's activity level (lib/networks.ts)
+  weight: weight.optional(),
+  // By default the known tokens deployed on the network (every asset on Ethereum)
+  assets: z.array(z.string().min(1)).min(1).optional(),
+});
+
+type NetworkSettings = z.infer<typeof networkSchema>;
+
+// Networks left out have no events; without any everything happens on Ethereum
+const DEFAULT_NETWORKS: Partial<Record<NetworkId, NetworkSettings>> = { ethereum: {} };
+
+const networksSchema: z.ZodType<Partial<Record<NetworkId, NetworkSettings>>> = z.strictObject(
+  Object.fromEntries(NETWORK_IDS.map((id) => [id, networkSchema.optional()]))
+);
+
+// Coins of a Curve pool may differ in price by at most this fraction
+const CURVE_PRICE_TOLERANCE = 0.05;
+
+// USD size of new positions and trades
+const amountSchema = z
+  .strictObject({
+    min: positive,
+    max: positive,
+    // log-uniform favors small amounts, like real order flow
+    distribution: z.enum(['uniform', 'log-uniform']).default('uniform'),
+  })
+  .refine(({ min, max }) => min <= max, { message: 'min must not exceed max' });
+
+// Relative share of each protocol and of price snapshots among the generated
+// entities; protocols left out get no share
+const mixSchema: z.ZodType<Record<string, number>> = z.strictObject({
+  ...Object.fromEntries(PROTOCOLS.map(({ id }) => [id, weight.default(0)])),
+  price_snapshot: weight,
+});
+
+// Relative weight of each event type within its protocol, by default the
+// weights of the protocol plugin
+const eventsSchema: z.ZodType<Record<string, Record<string, number>>> = z.strictObject(
+  Object.fromEntries(
+    PROTOCOLS.map(({ id, eventTypes, defaultWeights }) => [
+      id,
+      z
+        .strictObject(Object.fromEntries(eventTypes.map((eventType) => [eventType, weight])))
+        .default(defaultWeights),
+    ])
+  )
+);
+
+export const scenarioSchema = z
+  .strictObject({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    assets: z.record(z.string().regex(/^[A-Za-z0-9]+$/, 'expected a token symbol'), assetSchema),
+    users: z
+      .array(userSchema)
+      .min(2, 'at least 2 users are needed (liquidators differ from users)')
+      .optional(),
+    population: populationSchema.optional(),
+    pools: z.array(poolSchema).default([]),
+    compound: compoundSchema.optional(),
+    curvePools: z.array(curvePoolSchema).default([]),
+    lido: lidoSchema.optional(),
+    networks: networksSchema.optional(),
+    mix: mixSchema,
+    events: eventsSchema,
+    amounts: z.strictObject({
+      supplyUSD: amountSchema,
+      swapUSD: amountSchema,
+      mintUSD: amountSchema,
+    }),
+  })
+  .superRefine((scenario, ctx) => {
+    const symbols = Object.keys(scenario.assets);
+    for (const [symbol, asset] of Object.entries(scenario.assets)) {
+      if (!asset.address && !TOKENS[symbol]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['assets', symbol, 'address'],
+          message: `${symbol} is not a known token: give its address`,
+        });
+      }
+    }
+    if (!scenario.users && !scenario.population) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['population'],
+        message: 'give the users: a population, or a list of users',
+      });
+    } else if (scenario.users && scenario.population) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['population'],
+        message: 'give either a population or a list of users, not both',
+      });
+    }
+    if (scenario.users && new Set(scenario.users).size !== scenario.users.length) {
+      ctx.addIssue({ code: 'custom', path: ['users'], message: 'users must be distinct' });
+    }
+    const population = scenario.population;
+    if (population && population.arbitrageShare > 0 && population.arbitrageurs === 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['population', 'arbitrageurs'],
+        message: 'an arbitrageShare needs arbitrageurs to make it',
+      });
+    }
+    scenario.pools.forEach(({ token0, token1 }, i) => {
+      for (const [field, token] of [
+        ['token0', token0],
+        ['token1', token1],
+      ]) {
+        if (!symbols.includes(token)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['pools', i, field],
+            message: `${token} is not one of the scenario assets (${symbols.join(', ')})`,
+          });
+        }
+      }
+      if (token0 === token1) {
+        ctx.addIssue({ code: 'custom', path: ['pools', i], message: 'a pool needs two tokens' });
+      }
+    });
+    if (scenario.compound) {
+      const { base, address, collateral } = scenario.compound;
+      for (const [path, token] of [
+        [['compound', 'base'], base],
+        ...Object.keys(collateral).map((asset) => [['compound', 'collateral', asset], asset]),
+      ] as [string[], string][]) {
+        if (!symbols.includes(token)) {
+          ctx.addIssue({
+            code: 'custom',
+            path,
+            message: `${token} is not one of the scenario assets (${symbols.join(', ')})`,
+          });
+        }
+      }
+      if (base in collateral) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['compound', 'collateral', base],
+          message: 'the base asset cannot be collateral',
+        });
+      }
+      if (!address && !COMET_ADDRESSES[base]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['compound', 'address'],
+          message: `there is no known ${base} market: give its address`,
+        });
+      }
+    }
+    const curvePoolNames = new Set<string>();
+    scenario.curvePools.forEach(({ name, coins, address }, i) => {
+      if (curvePoolNames.has(name)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['curvePools', i, 'name'],
+          message: `${name} is already the name of another pool`,
+        });
+      }
+      curvePoolNames.add(name);
+      coins.forEach((coin, k) => {
+        if (!symbols.includes(coin)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['curvePools', i, 'coins', k],
+            message: `${coin} is not one of the scenario assets (${symbols.join(', ')})`,
+          });
+        }
+      });
+      if (new Set(coins).size !== coins.length) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['curvePools', i, 'coins'],
+          message: 'coins must be distinct',
+        });
+      }
+      const prices = coins
+        .filter((coin) => symbols.includes(coin))
+        .map((coin) => scenario.assets[coin].price);
+      if (Math.max(...prices) > Math.min(...prices) * (1 + CURVE_PRICE_TOLERANCE)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['curvePools', i, 'coins'],
+          message: 'stable pools need coins of about the same price',
+        });
+      }
+      if (!address && !CURVE_POOL_ADDRESSES[coins.join('/')]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['curvePools', i, 'address'],
+          message: `there is no known ${coins.join('/')} pool: give its address`,
+        });
+      }
+    });
+
+    for (const [id, settings] of Object.entries(scenario.networks ?? {})) {
+      settings?.assets?.forEach((asset, k) => {
+        if (!symbols.includes(asset)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['networks', id, 'assets', k],
+            message: `${asset} is not one of the scenario assets (${symbols.join(', ')})`,
+          });
+        }
+      });
+    }
+    const networks = scenarioNetworks(scenario);
+    if (networks.length === 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['networks'],
+        message: 'at least one network must have a weight > 0',
+      });
+    }
+
+    const total = (weights: Record<string, number>) =>
+      Object.values(weights).reduce((sum, value) => sum + value, 0);
+    if (total(scenario.mix) === 0) {
+      ctx.addIssue({ code: 'custom', path: ['mix'], message: 'at least one weight must be > 0' });
+    }
+    for (const plugin of PROTOCOLS) {
+      if (scenario.mix[plugin.id] > 0) {
+        const issues = plugin.checkScenario?.(scenario) ?? [];
+        for (const issue of issues) {
+          ctx.addIssue({ code: 'custom', ...issue });
+        }
+        if (
+          issues.length === 0 &&
+          networks.length > 0 &&
+          !networks.some(({ protocols }) => protocols.includes(plugin.id))
+        ) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['networks'],
+            message: plugin.networks
+              ? `${plugin.name} events need one of the networks ${plugin.networks.join(', ')}`
+              : `${plugin.name} events need assets, pools or markets none of the networks has`,
+          });
+        }
+        // Events the simulated state does not allow fall back to another event
+        // type of the protocol, so any one weight is enough
+        if (total(scenario.events[plugin.id]) === 0) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['events', plugin.id],
+            message: `at least one weight must be > 0 when mix.${plugin.id} is`,
+          });
+        }
+      }
+    }
+  });
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+export type AmountDistribution = Scenario['amounts']['supplyUSD'];
+
+export class ScenarioError extends Error {
+  constructor(
+    readonly source: string,
+    message: string
+  ) {
+    super(`Invalid scenario ${source}:\n${message}`);
+    this.name = 'ScenarioError';
+  }
+}
+
+/**
+ * Validate a parsed scenario; `source` names it in errors.
+ */
+export function parseScenario(value: unknown, source: string): Scenario {
+  const result = scenarioSchema.safeParse(value);
+  if (!result.success) {
+    throw new ScenarioError(source, z.prettifyError(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Load a preset by name, or a scenario file (.json, .yaml or .yml).
+ */
+export async function loadScenario(nameOrPath: string): Promise<Scenario> {
+  const path = SCENARIO_PRESETS.includes(nameOrPath)
+    ? new URL(`../scenarios/${nameOrPath}.json`, import.meta.url)
+    : nameOrPath;
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ScenarioError(
+        nameOrPath,
+        `no such file, and not a preset (${SCENARIO_PRESETS.join(', ')})`
+      );
+    }
+    throw error;
+  }
+
+  let value: unknown;
+  try {
+    value = ['.yaml', '.yml'].includes(extname(nameOrPath))
+      ? parseYaml(content)
+      : JSON.parse(content);
+  } catch (error) {
+    throw new ScenarioError(nameOrPath, error instanceof Error ? error.message : String(error));
+  }
+  return parseScenario(value, nameOrPath);
+}
+
+// ----------------------------------------------------------------------------
+// What the generator needs from a scenario
+// ----------------------------------------------------------------------------
+
+/**
+ * Make the scenario's tokens known to lib/tokens.ts (pool ordering and
+ * raw amounts use their addresses and decimals).
+ */
+export function registerScenarioTokens(scenario: Scenario): void {
+  for (const [symbol, asset] of Object.entries(scenario.assets)) {
+    registerToken({
+      symbol,
+      address: (asset.address ?? TOKENS[symbol].address) as `0x${string}`,
+      decimals: asset.decimals,
+    });
+  }
+}
+
+export function scenarioMarkets(scenario: Scenario): Record<string, AssetMarket> {
+  const markets: Record<string, AssetMarket> = {};
+  for (const [symbol, asset] of Object.entries(scenario.assets)) {
+    markets[symbol] = {
+      initialPrice: asset.price,
+      volatility: asset.volatility,
+      pegged: asset.pegged,
+      circulatingSupply: asset.circulatingSupply,
+    };
+  }
+  return markets;
+}
+
+/**
+ * Weight of every event type among all generated entities: the protocol's
+ * share of the mix split by the event weights within the protocol. Protocols
+ * come in the order of the registry, event types in the order of their plugin.
+ */
+export function eventWeights(
+  scenario: Scenario
+): { protocol: ProtocolId; eventType: string; weight: number }[] {
+  return PROTOCOLS.flatMap(({ id, eventTypes }) => {
+    const weights: Record<string, number> = scenario.events[id];
+    const share = scenario.mix[id];
+    const total = Object.values(weights).reduce((sum, value) => sum + value, 0);
+    return eventTypes.map((eventType) => ({
+      protocol: id,
+      eventType,
+      weight: total > 0 ? (share * weights[eventType]) / total : 0,
+    }));
+  });
+}
+
+export interface ScenarioNetwork {
+  network: SourceNetwork;
+  // Share of the events of each of its protocols, against the other networks with that protocol
+  weight: number;
+  // The scenario as seen on the network: its assets, and the pools and markets of those
+  scenario: Scenario;
+  // Protocols of the mix whose events can happen on the network
+  protocols: ProtocolId[];
+}
+
+/**
+ * The networks of the scenario with a share of the events, in the order of
+ * lib/networks.ts, and what each of them has of the scenario.
+ */
+export function scenarioNetworks(scenario: Scenario): ScenarioNetwork[] {
+  return NETWORK_IDS.flatMap((id) => {
+    const settings = (scenario.networks ?? DEFAULT_NETWORKS)[id];
+    const network = SOURCE_NETWORKS[id];
+    const weight = settings?.weight ?? network.activity;
+    if (!settings || weight === 0) {
+      return [];
+    }
+    const view = networkScenario(scenario, network, settings.assets);
+    const protocols = PROTOCOLS.filter(
+      (plugin) =>
+        scenario.mix[plugin.id] > 0 &&
+        (plugin.networks?.includes(id) ?? true) &&
+        (plugin.checkScenario?.(view) ?? []).length === 0
+    ).map((plugin) => plugin.id);
+    return [{ network, weight, scenario: view, protocols }];
+  });
+}
+
+// The part of `scenario` on `network`: the assets deployed there, and the
+// pools and markets whose assets all are
+function networkScenario(
+  scenario: Scenario,
+  network: SourceNetwork,
+  assets: string[] | undefined
+): Scenario {
+  const deployed = new Set(
+    assets ??
+      Object.keys(scenario.assets).filter((symbol) => network.assets?.includes(symbol) ?? true)
+  );
+  const compound = scenario.compound &&
+    deployed.has(scenario.compound.base) && {
+      ...scenario.compound,
+      collateral: Object.fromEntries(
+        Object.entries(scenario.compound.collateral).filter(([asset]) => deployed.has(asset))
+      ),
+    };
+  return {
+    ...scenario,
+    assets: Object.fromEntries(
+      Object.entries(scenario.assets).filter(([symbol]) => deployed.has(symbol))
+    ),
+    pools: scenario.pools.filter(
+      ({ token0, token1 }) => deployed.has(token0) && deployed.has(token1)
+    ),
+    compound: compound || undefined,
+    curvePools: scenario.curvePools.filter(({ coins }) =>
+      coins.every((coin) => deployed.has(coin))
+    ),
+  };
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+// ============================================================================
+// FIELD FORMATS
+// ============================================================================
+//
+// Formats of the fields entities share, used by the entity schemas of
+// lib/schema.ts and by the event schemas of the protocol plugins
+// (lib/protocols/).
+
+export const addressSchema = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{40}$/, 'expected a 20-byte hex address');
+
+export const txHashSchema = z
+  .string()
+  .regex(/^0x[0-9a-f]{64}$/, 'expected a 32-byte lowercase hex transaction hash');
+
+// ISO 8601 in UTC, e.g. 2024-03-04T14:05:11.000Z
+export const timestampSchema = z.iso.datetime();
+
+// Non-negative amounts as decimal strings, e.g. '1234.56'
+export const decimalSchema = z
+  .string()
+  .regex(/^\d+(\.\d+)?$/, 'expected a non-negative decimal string');
+
+// Raw on-chain integers too large for a number, e.g. liquidity
+export const integerStringSchema = z.string().regex(/^\d+$/, 'expected an integer string');
+
+// Signed percentages, e.g. '-3.50%'
+export const percentSchema = z
+  .string()
+  .regex(/^-?\d+(\.\d+)?%$/, 'expected a percentage like 3.50%');
+
+export const symbolSchema = z.string().min(1);
+export const blockNumberSchema = z.number().int().nonnegative();
+// Position of an event's log; with the network and txHash it identifies the event
+export const logIndexSchema = z.number().int().nonnegative();
+
+// Added by the generators to everything they push (see DATA_SCHEMA.md, Run Metadata)
+export const runFields = {
+  seed: z.string().min(1).optional(),
+  runId: z.string().min(1).optional(),
+  generatorVersion: z.string().min(1).optional(),
+  configHash: z
+    .string()
+    .regex(/^[0-9a-f]{16}$/, 'expected 16 hex digits')
+    .optional(),
+};
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { PROTOCOL_IDS, PROTOCOLS, type RegisteredProtocol } from './protocols';
+import {
+  decimalSchema,
+  percentSchema,
+  runFields,
+  symbolSchema,
+  timestampSchema,
+} from './schema-fields';
+
+// ============================================================================
+// ENTITY SCHEMAS
+// ============================================================================
+//
+// The one definition of every entity the generators push: field formats, the
+// fields each event type requires and the rules that tie fields together.
+// Protocol events are defined by their protocol plugins (lib/protocols/) and
+// brought together here. lib/types.ts derives the TypeScript types from these schemas, the
+// generators validate every entity against them before it reaches a sink, and
+// the export-schema command writes them out as JSON Schema for the dashboard.
+
+function toCents(usd: string): number {
+  return Math.round(parseFloat(usd) * 100);
+}
+
+// ----------------------------------------------------------------------------
+// Protocol events
+// ----------------------------------------------------------------------------
+
+// Each protocol plugin brings the schema of its events (lib/protocols/)
+type ProtocolEventSchema = RegisteredProtocol['schema'];
+
+export const protocolEventSchema = z.discriminatedUnion(
+  'protocol',
+  PROTOCOLS.map(({ schema }) => schema) as [ProtocolEventSchema, ...ProtocolEventSchema[]]
+);
+
+// ----------------------------------------------------------------------------
+// Aggregated metrics and price snapshots
+// ----------------------------------------------------------------------------
+
+export const aggregatedMetricSchema = z
+  .strictObject({
+    entityType: z.literal('aggregated_metric'),
+    metricType: z.literal('hourly_summary'),
+    protocol: z.enum(PROTOCOL_IDS),
+    // Source network of the events summarized
+    network: z.string().min(1),
+    timeWindow: z.literal('1h'),
+    // Start of the hour covered
+    timestamp: timestampSchema,
+    ...runFields,
+
+    // Volume metrics
+    totalVolumeUSD: decimalSchema,
+    transactionCount: z.number().int().nonnegative(),
+    uniqueUsers: z.number().int().nonnegative(),
+
+    // Asset breakdown
+    assetVolumes: z.record(symbolSchema, decimalSchema),
+
+    // Event type breakdown
+    eventTypeCounts: z.record(z.string(), z.number().int().positive()),
+
+    // Average values
+    avgTransactionSizeUSD: decimalSchema,
+  })
+  .superRefine((metric, ctx) => {
+    if (Date.parse(metric.timestamp) % (60 * 60 * 1000) !== 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['timestamp'],
+        message: 'must be the start of an hour',
+      });
+    }
+    // Every event is in one transaction, and a transaction can emit several
+    const counted = Object.values(metric.eventTypeCounts).reduce((sum, n) => sum + n, 0);
+    if (metric.transactionCount > counted || (counted > 0 && metric.transactionCount === 0)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['transactionCount'],
+        message: `must be between 1 and the ${counted} events of eventTypeCounts`,
+      });
+    }
+    if (metric.uniqueUsers > counted) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['uniqueUsers'],
+        message: `cannot exceed the ${counted} events of eventTypeCounts`,
+      });
+    }
+    const assetCents = Object.values(metric.assetVolumes).reduce((sum, v) => sum + toCents(v), 0);
+    if (assetCents !== toCents(metric.totalVolumeUSD)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['assetVolumes'],
+        message: `volumes add up to ${(assetCents / 100).toFixed(2)}, not totalVolumeUSD ${metric.totalVolumeUSD}`,
+      });
+    }
+  });
+
+export const priceSnapshotSchema = z.strictObject({
+  entityType: z.literal('price_snapshot'),
+  snapshotType: z.literal('price_snapshot'),
+  asset: symbolSchema,
+  priceUSD: decimalSchema,
+  timestamp: timestampSchema,
+  ...runFields,
+
+  // Additional price data
+  change24h: percentSchema,
+  volume24hUSD: decimalSchema,
+  marketCapUSD: decimalSchema.optional(),
+});
+
+export const generatedEntitySchema = z.discriminatedUnion('entityType', [
+  protocolEventSchema,
+  aggregatedMetricSchema,
+  priceSnapshotSchema,
+]);
+
+// ----------------------------------------------------------------------------
+// Validation
+// ----------------------------------------------------------------------------
+
+export class EntityValidationError extends Error {
+  constructor(
+    readonly entity: unknown,
+    readonly error: z.ZodError
+  ) {
+    super(`Invalid ${describeEntity(entity)}:\n${z.prettifyError(error)}`);
+    this.name = 'EntityValidationError';
+  }
+}
+
+// e.g. "aave-v3 Borrow event", for error messages
+function describeEntity(entity: unknown): string {
+  if (typeof entity !== 'object' || entity === null) {
+    return 'entity';
+  }
+  const { protocol, eventType, metricType, snapshotType } = entity as Record<string, unknown>;
+  if (eventType !== undefined) {
+    return `${String(protocol)} ${String(eventType)} event`;
+  }
+  if (metricType !== undefined) {
+    return `${String(protocol)} ${String(metricType)}`;
+  }
+  return snapshotType !== undefined ? String(snapshotType) : 'entity';
+}
+
+/**
+ * Check an entity against its schema before it is pushed. Returns the entity
+ * itself (not a parsed copy, so its field order is kept) or throws an
+ * EntityValidationError listing every problem found.
+ */
+export function validateEntity<T extends z.infer<typeof generatedEntitySchema>>(entity: T): T {
+  const result = generatedEntitySchema.safeParse(entity);
+  if (!result.success) {
+    throw new EntityValidationError(entity, result.error);
+  }
+  return entity;
+}
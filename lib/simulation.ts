@@ -0,0 +1,77 @@
+import type { NetworkId } from './networks';
+import type { PriceSimulator } from './price-simulator';
+import { random } from './random';
+import type { AmountDistribution, Scenario } from './scenario';
+import type { UserAction } from './users';
+
+// ============================================================================
+// SIMULATION HELPERS
+// ============================================================================
+//
+// What the protocol plugins (lib/protocols/) build their events from: the
+// simulated chain and market lib/generator.ts hands them, and helpers for
+// picking values and formatting amounts. Every random value comes from the
+// seeded PRNG of lib/random.ts, so seeded runs stay reproducible.
+
+export interface SimulationContext {
+  // Source network of the events, and the part of the scenario on it
+  network: NetworkId;
+  // The simulated market (--scenario) as seen on the network
+  scenario: Scenario;
+  // Prices evolve along simulated paths, read at each event's timestamp
+  prices: PriceSimulator;
+  // Block of the next event on the network; moves the clock forward, so call it first
+  nextBlock(): number;
+  // Transaction of the event and the index of its log in it, once the event is
+  // sure to happen: a new transaction, or the next log of the one before
+  nextLog(): { txHash: string; logIndex: number };
+  // Time of the current block, as an ISO timestamp
+  timestamp(): string;
+  // A user of the scenario to do `action` (anything by default), picked at random by activity
+  randomUser(action?: UserAction): string;
+  // USD value of `amount` at the asset's simulated price at `timestamp`
+  calculateUSD(amount: string, asset: string, timestamp: string): string;
+}
+
+export function randomElement<T>(array: T[]): T {
+  return array[Math.floor(random() * array.length)];
+}
+
+/**
+ * An element of `items` picked with probability proportional to its weight.
+ */
+export function weightedElement<T extends { weight: number }>(items: T[]): T {
+  const totalWeight = items.reduce((sum, { weight }) => sum + weight, 0);
+  let pick = random() * totalWeight;
+
+  for (const item of items) {
+    pick -= item.weight;
+    if (pick <= 0) {
+      return item;
+    }
+  }
+
+  return items[items.length - 1];
+}
+
+// Token amounts keep up to 6 decimals so small amounts of expensive assets
+// (e.g. WBTC) stay meaningful
+export function formatAmount(amount: number): string {
+  return amount.toFixed(6).replace(/(\.\d\d\d*?)0+$/, '$1');
+}
+
+export function generateTxHash(): string {
+  const chars = '0123456789abcdef';
+  let hash = '0x';
+  for (let i = 0; i < 64; i++) {
+    hash += chars[Math.floor(random() * chars.length)];
+  }
+  return hash;
+}
+
+/**
+ * A USD amount drawn from `distribution`, given a uniform random value in [0, 1).
+ */
+export function sampleAmount({ min, max, distribution }: AmountDistribution, u: number): number {
+  return distribution === 'log-uniform' ? min * (max / min) ** u : u * (max - min) + min;
+}
@@ -0,0 +1,429 @@
+import { createWriteStream, type WriteStream } from 'node:fs';
+import type {
+  Attribute,
+  CreateEntityParameters,
+  Hex,
+  MimeType,
+  PublicArkivClient,
+  UpdateEntityParameters,
+  WalletArkivClient,
+} from '@arkiv-network/sdk';
+import { or } from '@arkiv-network/sdk/query';
+import type { FlagSpecs } from './cli';
+import { queryOwnedEntityKeys } from './entity-query';
+import { naturalKey, type NaturalKey } from './natural-keys';
+
+// ============================================================================
+// OUTPUT SINKS
+// ============================================================================
+//
+// A sink receives exactly what the generators would hand to
+// walletClient.createEntity (payload, contentType, attributes, expiresIn), so
+// the same run can go to Arkiv, to a fixture file or to a test without any
+// change in how entities are built.
+
+export interface SinkReceipt {
+  entityKey?: string;
+  txHash?: string;
+  // How an entity already stored under its natural key was handled (idempotent mode)
+  existing?: IfExists;
+}
+
+export interface EntitySink {
+  readonly name: string;
+  // True when the sink writes its records to stdout, so progress output must go to stderr
+  readonly usesStdout: boolean;
+  write(entity: CreateEntityParameters): Promise<SinkReceipt>;
+  // Write several entities at once; receipts are returned in input order
+  writeBatch(entities: CreateEntityParameters[]): Promise<SinkReceipt[]>;
+  close(): Promise<void>;
+}
+
+export type SinkKind = 'arkiv' | 'file' | 'stdout';
+
+export const SINK_KINDS: SinkKind[] = ['arkiv', 'file', 'stdout'];
+
+// What the idempotent mode of the Arkiv sink does with an entity whose natural
+// key (lib/natural-keys.ts) is already stored: leave it, or overwrite it
+export type IfExists = 'skip' | 'update';
+
+export const IF_EXISTS_MODES: IfExists[] = ['skip', 'update'];
+
+// Command-line flags choosing the sink (see lib/cli.ts)
+export const SINK_FLAGS = {
+  sink: {
+    type: 'string',
+    value: 'sink',
+    description: 'Where entities go',
+    choices: SINK_KINDS,
+    default: 'arkiv',
+  },
+  out: { type: 'string', value: 'path', description: 'Output file of the file sink' },
+  'if-exists': {
+    type: 'string',
+    value: 'mode',
+    description:
+      'Look entities up by natural key before writing to Arkiv: skip or update those found',
+    choices: IF_EXISTS_MODES,
+  },
+} as const satisfies FlagSpecs;
+
+// ============================================================================
+// SERIALIZED RECORDS
+// ============================================================================
+
+// JSON-friendly form of CreateEntityParameters used by the file and stdout sinks
+export interface EntityRecord {
+  contentType: MimeType;
+  attributes: Attribute[];
+  expiresIn: number;
+  payload: string;
+  payloadEncoding: 'utf8' | 'base64';
+}
+
+function isTextContentType(contentType: MimeType): boolean {
+  return contentType.startsWith('text/') || contentType === 'application/json';
+}
+
+export function toEntityRecord(entity: CreateEntityParameters): EntityRecord {
+  const text = isTextContentType(entity.contentType);
+  return {
+    contentType: entity.contentType,
+    attributes: entity.attributes,
+    expiresIn: entity.expiresIn,
+    payload: text
+      ? new TextDecoder().decode(entity.payload)
+      : Buffer.from(entity.payload).toString('base64'),
+    payloadEncoding: text ? 'utf8' : 'base64',
+  };
+}
+
+export function fromEntityRecord(record: EntityRecord): CreateEntityParameters {
+  return {
+    contentType: record.contentType,
+    attributes: record.attributes,
+    expiresIn: record.expiresIn,
+    payload:
+      record.payloadEncoding === 'base64'
+        ? new Uint8Array(Buffer.from(record.payload, 'base64'))
+        : new TextEncoder().encode(record.payload),
+  };
+}
+
+// ============================================================================
+// SINK IMPLEMENTATIONS
+// ============================================================================
+
+export interface ArkivSinkOptions {
+  // Idempotent mode: entities already stored under their natural key are
+  // skipped or updated instead of being created again
+  ifExists?: IfExists;
+}
+
+/**
+ * Pushes entities to Arkiv: a createEntity transaction per write, or a single
+ * mutateEntities transaction per batch.
+ *
+ * Nonces are assigned locally in call order, so several transactions can be in
+ * flight at once without racing each other for the same nonce. Any failure,
+ * of a send or of the pending nonce lookup, drops the local counter and the
+ * next call resyncs from the pending nonce on chain, which fills the gap left
+ * by a transaction that never landed.
+ *
+ * In idempotent mode every write first queries the account's entities for
+ * the natural keys of the entities it holds, so retries and reruns of the same
+ * seed never store an entity twice. The lookup comes before the nonce is
+ * reserved: a write that has nothing left to send uses none. A key is looked
+ * up and written by one write at a time, so concurrent batches holding the
+ * same key cannot both find it missing, and a key found twice in a batch is
+ * written once.
+ */
+export function createArkivSink(
+  walletClient: WalletArkivClient,
+  publicClient: PublicArkivClient,
+  { ifExists }: ArkivSinkOptions = {}
+): EntitySink {
+  const address = walletClient.account?.address;
+  if (!address) {
+    throw new Error('The Arkiv sink needs a wallet client with an account');
+  }
+
+  let nextNonce: Promise<number> | undefined;
+
+  function reserveNonce(): Promise<number> {
+    const reserved =
+      nextNonce ?? publicClient.getTransactionCount({ address: address!, blockTag: 'pending' });
+    const next = reserved.then((nonce) => nonce + 1);
+    // A failed lookup fails the writes already waiting on it; the next one resyncs
+    next.catch(() => {
+      if (nextNonce === next) {
+        nextNonce = undefined;
+      }
+    });
+    nextNonce = next;
+    return reserved;
+  }
+
+  async function withNonce<T>(send: (nonce: number) => Promise<T>): Promise<T> {
+    try {
+      return await send(await reserveNonce());
+    } catch (error) {
+      nextNonce = undefined;
+      throw error;
+    }
+  }
+
+  // The writes holding each natural key, by key id, from lookup to confirmation
+  const keyHolders = new Map<string, Promise<unknown>>();
+
+  // Runs `write` once the writes holding any of `ids` have settled, holding them in turn
+  async function holdingKeys<T>(ids: string[], write: () => Promise<T>): Promise<T> {
+    const holders = new Set(
+      ids.map((id) => keyHolders.get(id)).filter((held) => held !== undefined)
+    );
+    const written = Promise.allSettled(holders).then(write);
+    for (const id of ids) {
+      keyHolders.set(id, written);
+    }
+    try {
+      return await written;
+    } finally {
+      for (const id of ids) {
+        if (keyHolders.get(id) === written) {
+          keyHolders.delete(id);
+        }
+      }
+    }
+  }
+
+  // Keys of the account's entities stored under the given natural keys, by key id
+  async function storedEntityKeys(keys: NaturalKey[]): Promise<Map<string, Hex>> {
+    const stored = new Map<string, Hex>();
+    if (keys.length === 0) {
+      return stored;
+    }
+    const predicates = [or(keys.map(({ predicate }) => predicate))];
+    for await (const { entityKey, attributes } of queryOwnedEntityKeys(
+      publicClient,
+      predicates,
+      address!
+    )) {
+      const key = naturalKey(attributes);
+      if (key) {
+        stored.set(key.id, entityKey);
+      }
+    }
+    return stored;
+  }
+
+  function createEntities(entities: CreateEntityParameters[]): Promise<SinkReceipt[]> {
+    return withNonce(async (nonce) => {
+      const { txHash, createdEntities } = await walletClient.mutateEntities(
+        { creates: entities },
+        { nonce }
+      );
+      return entities.map((_, i) => ({ entityKey: createdEntities[i], txHash }));
+    });
+  }
+
+  // Creates the entities not stored yet, and skips or updates the others
+  function writeIdempotent(
+    entities: CreateEntityParameters[],
+    mode: IfExists
+  ): Promise<SinkReceipt[]> {
+    const keys = entities.map(({ attributes }) => naturalKey(attributes));
+
+    // A key found again in the batch is handled as if its first entity were
+    // stored already: written once, with the content of its last entity in
+    // update mode
+    const firstOf = new Map<string, number>();
+    const contents = [...entities];
+    keys.forEach((key, i) => {
+      const first = key && firstOf.get(key.id);
+      if (key && first === undefined) {
+        firstOf.set(key.id, i);
+      } else if (first !== undefined && mode === 'update') {
+        contents[first] = entities[i];
+      }
+    });
+    const duplicateOf = keys.map((key, i) => {
+      const first = key && firstOf.get(key.id);
+      return first === i ? undefined : first;
+    });
+
+    return holdingKeys([...firstOf.keys()], async () => {
+      const stored = await storedEntityKeys([...firstOf.values()].map((first) => keys[first]!));
+
+      const creates: CreateEntityParameters[] = [];
+      const updates: UpdateEntityParameters[] = [];
+      const receipts: SinkReceipt[] = contents.map((entity, i) => {
+        if (duplicateOf[i] !== undefined) {
+          return { existing: mode };
+        }
+        const entityKey = keys[i] && stored.get(keys[i].id);
+        if (!entityKey) {
+          creates.push(entity);
+          return {};
+        }
+        if (mode === 'update') {
+          updates.push({ entityKey, ...entity });
+        }
+        return { entityKey, existing: mode };
+      });
+
+      let written = receipts;
+      if (creates.length > 0 || updates.length > 0) {
+        const { txHash, createdEntities } = await withNonce((nonce) =>
+          walletClient.mutateEntities({ creates, updates }, { nonce })
+        );
+        let created = 0;
+        written = receipts.map((receipt, i) => {
+          if (duplicateOf[i] !== undefined || receipt.existing === 'skip') {
+            return receipt;
+          }
+          return { ...receipt, entityKey: receipt.entityKey ?? createdEntities[created++], txHash };
+        });
+      }
+      // Duplicates share the receipt of the entity written for their key
+      return written.map((receipt, i) => {
+        const first = duplicateOf[i];
+        return first === undefined
+          ? receipt
+          : { ...receipt, entityKey: written[first].entityKey, txHash: written[first].txHash };
+      });
+    });
+  }
+
+  return {
+    name: 'arkiv',
+    usesStdout: false,
+    async write(entity) {
+      if (ifExists) {
+        const [receipt] = await writeIdempotent([entity], ifExists);
+        return receipt;
+      }
+      return withNonce(async (nonce) => {
+        const { entityKey, txHash } = await walletClient.createEntity(entity, { nonce });
+        return { entityKey, txHash };
+      });
+    },
+    writeBatch(entities) {
+      return ifExists ? writeIdempotent(entities, ifExists) : createEntities(entities);
+    },
+    async close() {},
+  };
+}
+
+function writeLine(stream: WriteStream | NodeJS.WriteStream, line: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(line, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * Writes entity records to a file: a JSON array when the path ends in `.json`,
+ * newline-delimited JSON otherwise. With `append`, records are added to an
+ * existing NDJSON file (used when resuming a run).
+ */
+export function createFileSink(path: string, { append = false } = {}): EntitySink {
+  const asArray = path.endsWith('.json');
+  if (append && asArray) {
+    throw new Error(`Cannot append to the JSON array file ${path}; use an NDJSON path instead`);
+  }
+  const stream = createWriteStream(path, { encoding: 'utf8', flags: append ? 'a' : 'w' });
+  let count = 0;
+
+  // A batch goes out as a single stream write so concurrent batches never interleave
+  async function writeRecords(entities: CreateEntityParameters[]): Promise<SinkReceipt[]> {
+    let chunk = '';
+    for (const entity of entities) {
+      const json = JSON.stringify(toEntityRecord(entity));
+      chunk += asArray ? `${count === 0 ? '[\n' : ',\n'}  ${json}` : json + '\n';
+      count++;
+    }
+    await writeLine(stream, chunk);
+    return entities.map(() => ({}));
+  }
+
+  return {
+    name: `file:${path}`,
+    usesStdout: false,
+    async write(entity) {
+      const [receipt] = await writeRecords([entity]);
+      return receipt;
+    },
+    writeBatch: writeRecords,
+    async close() {
+      if (asArray) {
+        await writeLine(stream, count === 0 ? '[]\n' : '\n]\n');
+      }
+      await new Promise<void>((resolve, reject) => {
+        stream.end((error?: Error | null) => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
+
+/**
+ * Writes entity records to stdout as newline-delimited JSON.
+ */
+export function createStdoutSink(): EntitySink {
+  async function writeRecords(entities: CreateEntityParameters[]): Promise<SinkReceipt[]> {
+    const chunk = entities.map((entity) => JSON.stringify(toEntityRecord(entity)) + '\n').join('');
+    await writeLine(process.stdout, chunk);
+    return entities.map(() => ({}));
+  }
+
+  return {
+    name: 'stdout',
+    usesStdout: true,
+    async write(entity) {
+      const [receipt] = await writeRecords([entity]);
+      return receipt;
+    },
+    writeBatch: writeRecords,
+    async close() {},
+  };
+}
+
+export interface MemorySink extends EntitySink {
+  readonly entities: CreateEntityParameters[];
+}
+
+/**
+ * Keeps every entity in memory, for tests and in-process consumers.
+ */
+export function createMemorySink(): MemorySink {
+  const entities: CreateEntityParameters[] = [];
+  return {
+    name: 'memory',
+    usesStdout: false,
+    entities,
+    async write(entity) {
+      entities.push(entity);
+      return {};
+    },
+    async writeBatch(batch) {
+      entities.push(...batch);
+      return batch.map(() => ({}));
+    },
+    async close() {},
+  };
+}
+
+/**
+ * Build one of the sinks that need no network access from a `--sink` flag value.
+ */
+export function createOfflineSink(kind: string, out?: string, append = false): EntitySink {
+  switch (kind) {
+    case 'file':
+      if (!out) {
+        throw new Error('The file sink needs an output path (--out <path>)');
+      }
+      return createFileSink(out, { append });
+    case 'stdout':
+      return createStdoutSink();
+    default:
+      throw new Error(`Unknown sink "${kind}" (expected one of: ${SINK_KINDS.join(', ')})`);
+  }
+}
@@ -0,0 +1,255 @@
+import { readFile } from 'node:fs/promises';
+import { decodePayload } from './encoding';
+import { eventContribution, formatCents, toCents } from './hourly-summaries';
+import { protocolPlugin } from './protocols';
+import { fromEntityRecord, type EntityRecord } from './sinks';
+import type { GeneratedEntity, ProtocolEvent, ProtocolType } from './types';
+
+// ============================================================================
+// DASHBOARD STATS
+// ============================================================================
+//
+// Computes the dashboard charts listed in DATA_SCHEMA.md from protocol events:
+// volume and transactions over time, event type distribution, asset
+// breakdown, top users by volume and the liquidation timeline. Volume is
+// counted as in the hourly summaries (swaps by their input side, liquidations
+// by the debt covered, liquidity changes not at all) and summed in cents, so
+// the numbers match the aggregated_metric entities of the same events.
+
+export type StatsBucket = '1h' | '1d';
+
+export const STATS_BUCKETS: StatsBucket[] = ['1h', '1d'];
+
+const BUCKET_MS: Record<StatsBucket, number> = {
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export interface StatsOptions {
+  bucket?: StatsBucket;
+  // Number of users in topUsers
+  topUsers?: number;
+}
+
+export interface VolumePoint {
+  // Start of the bucket (UTC)
+  time: string;
+  volumeUSD: number;
+  // Distinct transactions: one transaction can emit several events
+  transactions: number;
+  // Volume per protocol, every protocol seen in the events
+  protocols: Record<string, number>;
+}
+
+export interface EventTypeCount {
+  protocol: ProtocolType;
+  eventType: string;
+  count: number;
+}
+
+export interface VolumeShare {
+  volumeUSD: number;
+  transactions: number;
+}
+
+export interface LiquidationPoint {
+  time: string;
+  blockNumber: number;
+  txHash: string;
+  user: string;
+  liquidator: string;
+  collateralAsset: string;
+  debtAsset: string;
+  debtCoveredUSD: number;
+  collateralLiquidatedUSD: number;
+}
+
+export interface DashboardStats {
+  bucket: StatsBucket;
+  // First and last event timestamps (null without events)
+  from: string | null;
+  to: string | null;
+  eventCount: number;
+  totalVolumeUSD: number;
+  uniqueUsers: number;
+  // One point per bucket from the first to the last event, empty buckets included
+  volumeOverTime: VolumePoint[];
+  eventTypes: EventTypeCount[];
+  assets: (VolumeShare & { asset: string })[];
+  topUsers: (VolumeShare & { user: string })[];
+  liquidations: LiquidationPoint[];
+}
+
+// Chart values are plain numbers, rounded to cents
+function usd(cents: number): number {
+  return Number(formatCents(cents));
+}
+
+// Volume in cents and the transactions that made it, by network and hash
+interface Tally {
+  cents: number;
+  transactions: Set<string>;
+}
+
+function addShare(shares: Map<string, Tally>, key: string) {
+  let share = shares.get(key);
+  if (!share) {
+    share = { cents: 0, transactions: new Set() };
+    shares.set(key, share);
+  }
+  return share;
+}
+
+function rankShares(shares: Map<string, Tally>): [string, VolumeShare][] {
+  return [...shares]
+    .sort(([a, x], [b, y]) => y.cents - x.cents || a.localeCompare(b))
+    .map(([key, { cents, transactions }]) => [
+      key,
+      { volumeUSD: usd(cents), transactions: transactions.size },
+    ]);
+}
+
+/**
+ * Compute the dashboard stats of a set of protocol events, in any order.
+ */
+export function computeStats(
+  events: ProtocolEvent[],
+  { bucket = '1h', topUsers = 10 }: StatsOptions = {}
+): DashboardStats {
+  const bucketMs = BUCKET_MS[bucket];
+  const sorted = [...events].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const buckets = new Map<number, Tally & { protocols: Map<string, number> }>();
+  const eventTypes = new Map<string, EventTypeCount>();
+  const assets = new Map<string, Tally>();
+  const users = new Map<string, Tally>();
+  const protocols = new Set<string>();
+  const liquidations: LiquidationPoint[] = [];
+  let totalCents = 0;
+
+  for (const event of sorted) {
+    const time = Date.parse(event.timestamp);
+    const bucketStart = time - (time % bucketMs);
+    let point = buckets.get(bucketStart);
+    if (!point) {
+      point = { cents: 0, transactions: new Set(), protocols: new Map() };
+      buckets.set(bucketStart, point);
+    }
+    protocols.add(event.protocol);
+
+    const { user, volume } = eventContribution(event);
+    const cents = volume ? toCents(volume.usd) : 0;
+    const transaction = `${event.network}/${event.txHash}`;
+    point.transactions.add(transaction);
+    point.cents += cents;
+    point.protocols.set(event.protocol, (point.protocols.get(event.protocol) ?? 0) + cents);
+    totalCents += cents;
+
+    const userShare = addShare(users, user);
+    userShare.transactions.add(transaction);
+    userShare.cents += cents;
+    if (volume) {
+      const assetShare = addShare(assets, volume.asset);
+      assetShare.transactions.add(transaction);
+      assetShare.cents += cents;
+    }
+
+    const typeKey = `${event.protocol}:${event.eventType}`;
+    const typeCount = eventTypes.get(typeKey) ?? {
+      protocol: event.protocol,
+      eventType: event.eventType,
+      count: 0,
+    };
+    typeCount.count++;
+    eventTypes.set(typeKey, typeCount);
+
+    const liquidation = protocolPlugin(event.protocol).liquidation?.(event);
+    if (liquidation) {
+      liquidations.push({
+        time: event.timestamp,
+        blockNumber: event.blockNumber,
+        txHash: event.txHash,
+        ...liquidation,
+      });
+    }
+  }
+
+  // Fill the gaps so line charts show quiet periods as zero
+  const volumeOverTime: VolumePoint[] = [];
+  if (buckets.size > 0) {
+    const first = Math.min(...buckets.keys());
+    const last = Math.max(...buckets.keys());
+    for (let start = first; start <= last; start += bucketMs) {
+      const point = buckets.get(start);
+      const byProtocol: Record<string, number> = {};
+      for (const protocol of [...protocols].sort()) {
+        byProtocol[protocol] = usd(point?.protocols.get(protocol) ?? 0);
+      }
+      volumeOverTime.push({
+        time: new Date(start).toISOString(),
+        volumeUSD: usd(point?.cents ?? 0),
+        transactions: point?.transactions.size ?? 0,
+        protocols: byProtocol,
+      });
+    }
+  }
+
+  return {
+    bucket,
+    from: sorted[0]?.timestamp ?? null,
+    to: sorted.at(-1)?.timestamp ?? null,
+    eventCount: sorted.length,
+    totalVolumeUSD: usd(totalCents),
+    uniqueUsers: users.size,
+    volumeOverTime,
+    eventTypes: [...eventTypes.values()].sort(
+      (a, b) => b.count - a.count || a.eventType.localeCompare(b.eventType)
+    ),
+    assets: rankShares(assets).map(([asset, share]) => ({ asset, ...share })),
+    topUsers: rankShares(users)
+      .slice(0, topUsers)
+      .map(([user, share]) => ({ user, ...share })),
+    liquidations,
+  };
+}
+
+// ============================================================================
+// FILE EXPORTS
+// ============================================================================
+
+function isEntityRecord(value: object): value is EntityRecord {
+  return 'payload' in value && 'payloadEncoding' in value && 'contentType' in value;
+}
+
+// A record of the file/stdout sinks, or an entity as printed by the query command
+function toEntity(value: object): GeneratedEntity {
+  if (isEntityRecord(value)) {
+    return decodePayload(fromEntityRecord(value));
+  }
+  return value as GeneratedEntity;
+}
+
+/**
+ * Read the entities of a file export: NDJSON written by the file sink or by
+ * `query --format ndjson`, or the JSON array of `query --format json`.
+ */
+export async function readEntityExport(path: string): Promise<GeneratedEntity[]> {
+  const content = await readFile(path, 'utf8');
+  if (content.trimStart().startsWith('[')) {
+    return (JSON.parse(content) as object[]).map(toEntity);
+  }
+  return content
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line, i) => {
+      try {
+        return toEntity(JSON.parse(line) as object);
+      } catch {
+        throw new Error(`${path}:${i + 1}: not a valid entity record`);
+      }
+    });
+}
+
+export function isProtocolEvent(entity: GeneratedEntity): entity is ProtocolEvent {
+  return entity.entityType === 'protocol_event';
+}
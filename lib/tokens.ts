@@ -0,0 +1,40 @@
+// ============================================================================
+// TOKENS
+// ============================================================================
+//
+// Ethereum mainnet addresses and decimals of the assets the generators use.
+// Addresses decide token0/token1 ordering in Uniswap pools; decimals convert
+// between token units and the raw integer amounts contracts work with.
+
+export interface TokenInfo {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+}
+
+export const TOKENS: Record<string, TokenInfo> = {
+  USDC: { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
+  WETH: { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18 },
+  DAI: { symbol: 'DAI', address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18 },
+  USDT: { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
+  WBTC: { symbol: 'WBTC', address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', decimals: 8 },
+  LINK: { symbol: 'LINK', address: '0x514910771AF9Ca656af840dff83E8264EcF986CA', decimals: 18 },
+  UNI: { symbol: 'UNI', address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', decimals: 18 },
+  AAVE: { symbol: 'AAVE', address: '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9', decimals: 18 },
+};
+
+export function tokenInfo(symbol: string): TokenInfo {
+  const token = TOKENS[symbol];
+  if (!token) {
+    throw new Error(`Unknown token ${symbol}`);
+  }
+  return token;
+}
+
+/**
+ * Add a token, or replace the address and decimals of a known one (scenario
+ * files can bring their own assets).
+ */
+export function registerToken(token: TokenInfo): void {
+  TOKENS[token.symbol] = token;
+}
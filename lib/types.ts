@@ -0,0 +1,42 @@
+import type { z } from 'zod';
+import type { aaveEventSchema } from './protocols/aave-v3';
+import type {
+  uniswapBurnEventSchema,
+  uniswapCollectEventSchema,
+  uniswapEventSchema,
+  uniswapMintEventSchema,
+  uniswapSwapEventSchema,
+} from './protocols/uniswap-v3';
+import type {
+  aggregatedMetricSchema,
+  generatedEntitySchema,
+  priceSnapshotSchema,
+  protocolEventSchema,
+} from './schema';
+
+// ============================================================================
+// DATA TYPES
+// ============================================================================
+//
+// Shapes of the entities the generators push, shared by the generator scripts
+// and the modules that build or consume them. They are inferred from the
+// schemas in lib/schema.ts and the protocol plugins, which also validate the
+// entities at runtime.
+
+export type AaveEvent = z.infer<typeof aaveEventSchema>;
+
+export type UniswapSwapEvent = z.infer<typeof uniswapSwapEventSchema>;
+export type UniswapMintEvent = z.infer<typeof uniswapMintEventSchema>;
+export type UniswapBurnEvent = z.infer<typeof uniswapBurnEventSchema>;
+export type UniswapCollectEvent = z.infer<typeof uniswapCollectEventSchema>;
+export type UniswapEvent = z.infer<typeof uniswapEventSchema>;
+
+export type ProtocolEvent = z.infer<typeof protocolEventSchema>;
+export type AggregatedMetric = z.infer<typeof aggregatedMetricSchema>;
+export type PriceSnapshot = z.infer<typeof priceSnapshotSchema>;
+export type GeneratedEntity = z.infer<typeof generatedEntitySchema>;
+
+export type EntityType = GeneratedEntity['entityType'];
+export type ProtocolType = ProtocolEvent['protocol'];
+export type AaveEventType = AaveEvent['eventType'];
+export type UniswapEventType = UniswapEvent['eventType'];
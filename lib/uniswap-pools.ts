@@ -0,0 +1,455 @@
+import { encodeAbiParameters, getCreate2Address, keccak256 } from '@arkiv-network/sdk';
+import { tokenInfo } from './tokens';
+
+// ============================================================================
+// UNISWAP V3 POOLS
+// ============================================================================
+//
+// Concentrated-liquidity pools keyed by token pair and fee tier. Each pool
+// tracks its sqrt price, current tick, active liquidity and the LP positions
+// providing it. Swaps move the price through the positions' ranges (crossing
+// ticks changes the active liquidity) and charge the fee tier on the input,
+// credited to the positions in range. Burned liquidity and earned fees are
+// owed to the position until collected, as in the real contracts.
+//
+// Internally amounts are raw integers (token units × 10^decimals) kept as
+// floating point numbers; the public methods take and return token units.
+
+const FACTORY_ADDRESS = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+const POOL_INIT_CODE_HASH = '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54';
+
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+const LOG_TICK_BASE = Math.log(1.0001);
+
+// Tick spacing of each fee tier (fee in hundredths of a bip, 3000 = 0.3%)
+export const FEE_TIERS: Record<number, number> = {
+  100: 1,
+  500: 10,
+  3000: 60,
+  10000: 200,
+};
+
+export interface PoolKey {
+  token0: string;
+  token1: string;
+  fee: number;
+}
+
+export interface LiquidityPosition {
+  owner: string;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: number;
+  tokensOwed0: number;
+  tokensOwed1: number;
+}
+
+export interface Pool extends PoolKey {
+  id: string;
+  address: `0x${string}`;
+  tickSpacing: number;
+  sqrtPrice: number;
+  tick: number;
+  liquidity: number;
+  positions: LiquidityPosition[];
+}
+
+// Initialized pools by id, saved in checkpoints
+export type UniswapPoolsState = Record<string, Pool>;
+
+export interface TokenAmounts {
+  amount0: number;
+  amount1: number;
+}
+
+export interface SwapResult {
+  amountIn: number;
+  amountOut: number;
+  feeAmount: number;
+}
+
+export interface UniswapPools {
+  pool(id: string): Pool | undefined;
+  pools(): Pool[];
+  // Create the pool at `price` (token1 per token0) unless it exists already
+  initialize(key: PoolKey, price: number): Pool;
+  // Pool price in token units of token1 per token0
+  price(id: string): number;
+  amountsForLiquidity(
+    id: string,
+    tickLower: number,
+    tickUpper: number,
+    liquidity: number
+  ): TokenAmounts;
+  mint(
+    id: string,
+    owner: string,
+    tickLower: number,
+    tickUpper: number,
+    liquidity: number
+  ): TokenAmounts;
+  // Remove liquidity; the amounts are owed to the position until collected
+  burn(
+    id: string,
+    owner: string,
+    tickLower: number,
+    tickUpper: number,
+    liquidity: number
+  ): TokenAmounts;
+  // Burned liquidity plus fees the position can collect
+  owed(id: string, position: LiquidityPosition): TokenAmounts;
+  // Withdraw everything owed to the position
+  collect(id: string, owner: string, tickLower: number, tickUpper: number): TokenAmounts;
+  // Swap up to `amountIn` (Infinity for as much as it takes), stopping early
+  // when the price reaches `priceLimit` or liquidity runs out
+  swap(id: string, zeroForOne: boolean, amountIn: number, priceLimit?: number): SwapResult;
+  getState(): UniswapPoolsState;
+}
+
+/**
+ * Order a token pair the way Uniswap does (by address) into a pool key.
+ */
+export function poolKey(tokenA: string, tokenB: string, fee: number): PoolKey {
+  const [token0, token1] =
+    tokenInfo(tokenA).address.toLowerCase() < tokenInfo(tokenB).address.toLowerCase()
+      ? [tokenA, tokenB]
+      : [tokenB, tokenA];
+  return { token0, token1, fee };
+}
+
+export function poolId({ token0, token1, fee }: PoolKey): string {
+  return `${token0}/${token1}/${fee}`;
+}
+
+/**
+ * Mainnet address of the pool, derived like the Uniswap V3 factory does.
+ */
+export function poolAddress({ token0, token1, fee }: PoolKey): `0x${string}` {
+  const salt = keccak256(
+    encodeAbiParameters(
+      [{ type: 'address' }, { type: 'address' }, { type: 'uint24' }],
+      [tokenInfo(token0).address, tokenInfo(token1).address, fee]
+    )
+  );
+  return getCreate2Address({ from: FACTORY_ADDRESS, salt, bytecodeHash: POOL_INIT_CODE_HASH });
+}
+
+export function sqrtPriceAtTick(tick: number): number {
+  return Math.pow(1.0001, tick / 2);
+}
+
+export function tickAtSqrtPrice(sqrtPrice: number): number {
+  return Math.floor((2 * Math.log(sqrtPrice)) / LOG_TICK_BASE);
+}
+
+/**
+ * Lowest and highest usable ticks for a tick spacing (a full-range position).
+ */
+export function fullRangeTicks(tickSpacing: number): [number, number] {
+  return [
+    Math.ceil(MIN_TICK / tickSpacing) * tickSpacing,
+    Math.floor(MAX_TICK / tickSpacing) * tickSpacing,
+  ];
+}
+
+/**
+ * sqrtPriceX96 as the contracts report it (Q64.96 fixed point).
+ */
+export function toSqrtPriceX96(sqrtPrice: number): string {
+  return BigInt(Math.round(sqrtPrice * 2 ** 96)).toString();
+}
+
+// Raw amounts of a position with `liquidity` between two sqrt prices at `sqrtPrice`
+function rawAmounts(
+  sqrtPrice: number,
+  sqrtLower: number,
+  sqrtUpper: number,
+  liquidity: number
+): TokenAmounts {
+  const current = Math.min(Math.max(sqrtPrice, sqrtLower), sqrtUpper);
+  return {
+    amount0: (liquidity * (sqrtUpper - current)) / (current * sqrtUpper),
+    amount1: liquidity * (current - sqrtLower),
+  };
+}
+
+/**
+ * Track Uniswap V3 pools, starting empty or from a saved state.
+ */
+export function createUniswapPools(state: UniswapPoolsState = {}): UniswapPools {
+  const pools: UniswapPoolsState = structuredClone(state);
+
+  function poolOf(id: string): Pool {
+    const pool = pools[id];
+    if (!pool) {
+      throw new Error(`Uniswap pool ${id} is not initialized`);
+    }
+    return pool;
+  }
+
+  function scales(pool: Pool): [number, number] {
+    return [10 ** tokenInfo(pool.token0).decimals, 10 ** tokenInfo(pool.token1).decimals];
+  }
+
+  function toTokens(pool: Pool, { amount0, amount1 }: TokenAmounts): TokenAmounts {
+    const [scale0, scale1] = scales(pool);
+    return { amount0: amount0 / scale0, amount1: amount1 / scale1 };
+  }
+
+  function isActive(position: LiquidityPosition, tick: number): boolean {
+    return position.liquidity > 0 && position.tickLower <= tick && tick < position.tickUpper;
+  }
+
+  function activeLiquidity(pool: Pool): number {
+    return pool.positions
+      .filter((position) => isActive(position, pool.tick))
+      .reduce((sum, position) => sum + position.liquidity, 0);
+  }
+
+  function findPosition(pool: Pool, owner: string, tickLower: number, tickUpper: number) {
+    return pool.positions.find(
+      (position) =>
+        position.owner === owner &&
+        position.tickLower === tickLower &&
+        position.tickUpper === tickUpper
+    );
+  }
+
+  function checkTicks(pool: Pool, tickLower: number, tickUpper: number): void {
+    const [minTick, maxTick] = fullRangeTicks(pool.tickSpacing);
+    if (
+      tickLower >= tickUpper ||
+      tickLower < minTick ||
+      tickUpper > maxTick ||
+      tickLower % pool.tickSpacing !== 0 ||
+      tickUpper % pool.tickSpacing !== 0
+    ) {
+      throw new Error(`Invalid tick range [${tickLower}, ${tickUpper}] for pool ${pool.id}`);
+    }
+  }
+
+  function amountsForLiquidity(
+    id: string,
+    tickLower: number,
+    tickUpper: number,
+    liquidity: number
+  ): TokenAmounts {
+    const pool = poolOf(id);
+    const raw = rawAmounts(
+      pool.sqrtPrice,
+      sqrtPriceAtTick(tickLower),
+      sqrtPriceAtTick(tickUpper),
+      liquidity
+    );
+    return toTokens(pool, raw);
+  }
+
+  // Next initialized tick (a position boundary) in the swap direction
+  function nextBoundary(pool: Pool, zeroForOne: boolean): number | undefined {
+    let next: number | undefined;
+    for (const { liquidity, tickLower, tickUpper } of pool.positions) {
+      if (liquidity <= 0) {
+        continue;
+      }
+      for (const tick of [tickLower, tickUpper]) {
+        if (zeroForOne ? tick <= pool.tick : tick > pool.tick) {
+          if (next === undefined || (zeroForOne ? tick > next : tick < next)) {
+            next = tick;
+          }
+        }
+      }
+    }
+    return next;
+  }
+
+  // Credit a swap step's fee to the positions in range, pro rata to liquidity
+  function creditFees(pool: Pool, fee: number, zeroForOne: boolean): void {
+    if (pool.liquidity <= 0) {
+      return;
+    }
+    for (const position of pool.positions) {
+      if (isActive(position, pool.tick)) {
+        const share = (fee * position.liquidity) / pool.liquidity;
+        if (zeroForOne) {
+          position.tokensOwed0 += share;
+        } else {
+          position.tokensOwed1 += share;
+        }
+      }
+    }
+  }
+
+  return {
+    pool(id) {
+      return pools[id];
+    },
+    pools() {
+      return Object.values(pools);
+    },
+    initialize(key, price) {
+      const id = poolId(key);
+      if (pools[id]) {
+        return pools[id];
+      }
+      const tickSpacing = FEE_TIERS[key.fee];
+      if (tickSpacing === undefined) {
+        throw new Error(`Unsupported Uniswap fee tier ${key.fee}`);
+      }
+      const decimals0 = tokenInfo(key.token0).decimals;
+      const decimals1 = tokenInfo(key.token1).decimals;
+      const sqrtPrice = Math.sqrt(price * 10 ** (decimals1 - decimals0));
+      pools[id] = {
+        ...key,
+        id,
+        address: poolAddress(key),
+        tickSpacing,
+        sqrtPrice,
+        tick: tickAtSqrtPrice(sqrtPrice),
+        liquidity: 0,
+        positions: [],
+      };
+      return pools[id];
+    },
+    price(id) {
+      const pool = poolOf(id);
+      const [scale0, scale1] = scales(pool);
+      return (pool.sqrtPrice * pool.sqrtPrice * scale0) / scale1;
+    },
+    amountsForLiquidity,
+    owed(id, position) {
+      return toTokens(poolOf(id), {
+        amount0: position.tokensOwed0,
+        amount1: position.tokensOwed1,
+      });
+    },
+    mint(id, owner, tickLower, tickUpper, liquidity) {
+      const pool = poolOf(id);
+      checkTicks(pool, tickLower, tickUpper);
+      let position = findPosition(pool, owner, tickLower, tickUpper);
+      if (!position) {
+        position = { owner, tickLower, tickUpper, liquidity: 0, tokensOwed0: 0, tokensOwed1: 0 };
+        pool.positions.push(position);
+      }
+      position.liquidity += liquidity;
+      pool.liquidity = activeLiquidity(pool);
+      return amountsForLiquidity(id, tickLower, tickUpper, liquidity);
+    },
+    burn(id, owner, tickLower, tickUpper, liquidity) {
+      const pool = poolOf(id);
+      const position = findPosition(pool, owner, tickLower, tickUpper);
+      if (!position || liquidity > position.liquidity) {
+        throw new Error(`Cannot burn ${liquidity} liquidity from ${owner} in pool ${id}`);
+      }
+      const raw = rawAmounts(
+        pool.sqrtPrice,
+        sqrtPriceAtTick(tickLower),
+        sqrtPriceAtTick(tickUpper),
+        liquidity
+      );
+      position.liquidity -= liquidity;
+      position.tokensOwed0 += raw.amount0;
+      position.tokensOwed1 += raw.amount1;
+      pool.liquidity = activeLiquidity(pool);
+      return toTokens(pool, raw);
+    },
+    collect(id, owner, tickLower, tickUpper) {
+      const pool = poolOf(id);
+      const position = findPosition(pool, owner, tickLower, tickUpper);
+      if (!position) {
+        throw new Error(`No position of ${owner} [${tickLower}, ${tickUpper}] in pool ${id}`);
+      }
+      const raw = { amount0: position.tokensOwed0, amount1: position.tokensOwed1 };
+      position.tokensOwed0 = 0;
+      position.tokensOwed1 = 0;
+      // Fully withdrawn positions are gone
+      if (position.liquidity === 0) {
+        pool.positions = pool.positions.filter((open) => open !== position);
+      }
+      return toTokens(pool, raw);
+    },
+    swap(id, zeroForOne, amountIn, priceLimit) {
+      const pool = poolOf(id);
+      const [scale0, scale1] = scales(pool);
+      const [scaleIn, scaleOut] = zeroForOne ? [scale0, scale1] : [scale1, scale0];
+      const feeRate = pool.fee / 1_000_000;
+      const sqrtLimit =
+        priceLimit === undefined ? undefined : Math.sqrt((priceLimit * scale1) / scale0);
+
+      let remaining = amountIn * scaleIn;
+      let consumed = 0;
+      let produced = 0;
+      let fees = 0;
+
+      while (remaining > 0) {
+        if (
+          sqrtLimit !== undefined &&
+          (zeroForOne ? pool.sqrtPrice <= sqrtLimit : pool.sqrtPrice >= sqrtLimit)
+        ) {
+          break;
+        }
+        const boundary = nextBoundary(pool, zeroForOne);
+        if (boundary === undefined) {
+          break; // No liquidity left in this direction
+        }
+
+        let target = sqrtPriceAtTick(boundary);
+        if (sqrtLimit !== undefined && (zeroForOne ? sqrtLimit > target : sqrtLimit < target)) {
+          target = sqrtLimit;
+        }
+        const crossesBoundary = target === sqrtPriceAtTick(boundary);
+        const liquidity = pool.liquidity;
+
+        // Input (after fee) needed to move the price all the way to the target
+        const needed =
+          liquidity === 0
+            ? 0
+            : zeroForOne
+              ? (liquidity * (pool.sqrtPrice - target)) / (pool.sqrtPrice * target)
+              : liquidity * (target - pool.sqrtPrice);
+
+        let next: number;
+        let stepIn: number;
+        if (remaining * (1 - feeRate) >= needed) {
+          next = target;
+          stepIn = needed / (1 - feeRate);
+        } else {
+          stepIn = remaining;
+          const net = remaining * (1 - feeRate);
+          next = zeroForOne
+            ? (liquidity * pool.sqrtPrice) / (liquidity + net * pool.sqrtPrice)
+            : pool.sqrtPrice + net / liquidity;
+        }
+
+        const stepOut = zeroForOne
+          ? liquidity * (pool.sqrtPrice - next)
+          : (liquidity * (next - pool.sqrtPrice)) / (pool.sqrtPrice * next);
+        const stepFee = stepIn * feeRate;
+        creditFees(pool, stepFee, zeroForOne);
+
+        consumed += stepIn;
+        produced += stepOut;
+        fees += stepFee;
+        remaining -= stepIn;
+        pool.sqrtPrice = next;
+
+        if (next === target && crossesBoundary) {
+          // Crossing down leaves the price just below the boundary tick
+          pool.tick = zeroForOne ? boundary - 1 : boundary;
+        } else {
+          pool.tick = tickAtSqrtPrice(next);
+        }
+        pool.liquidity = activeLiquidity(pool);
+      }
+
+      return {
+        amountIn: consumed / scaleIn,
+        amountOut: produced / scaleOut,
+        feeAmount: fees / scaleIn,
+      };
+    },
+    getState() {
+      return structuredClone(pools);
+    },
+  };
+}
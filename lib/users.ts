@@ -0,0 +1,122 @@
+import { dataSlice, getAddress, id } from 'ethers';
+import { random } from './random';
+import type { Scenario } from './scenario';
+import { randomElement } from './simulation';
+
+// ============================================================================
+// USER POPULATION
+// ============================================================================
+//
+// The addresses events are made by. A scenario either lists its users, all
+// equally active, or describes a population to derive them from: EIP-55
+// checksummed addresses hashed from the population seed, so a scenario always
+// has the same users whatever the seed of the run. Activity is heavy-tailed
+// (Zipf's law): the k-th user acts 1/k^activitySkew as often as the first, so
+// a few whales make a large part of the events and most users only a handful.
+// Liquidator bots make the liquidations and arbitrageurs a share of the
+// trades; neither lends, provides liquidity or stakes.
+
+// What a user is picked for: liquidations and trades (swaps, Curve exchanges)
+// have users of their own, everything else is done by regular users
+export type UserAction = 'any' | 'trade' | 'liquidation';
+
+export interface UserPopulation {
+  // Regular users, most active first
+  users: string[];
+  liquidators: string[];
+  arbitrageurs: string[];
+  // A user to act next, picked at random by activity among those who do `action`
+  pick(action?: UserAction): string;
+}
+
+// Address of the `index`-th member of a role, from the population seed
+function derivedAddress(seed: string, role: string, index: number): string {
+  return getAddress(dataSlice(id(`${seed}/${role}/${index}`), 12));
+}
+
+// Addresses with their weights, picked with one random draw
+function createPicker(entries: { address: string; weight: number }[]): () => string {
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const { weight } of entries) {
+    total += weight;
+    cumulative.push(total);
+  }
+
+  return () => {
+    const x = random() * total;
+    // First entry whose cumulative weight exceeds x
+    let low = 0;
+    let high = entries.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (cumulative[middle] > x) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return entries[low].address;
+  };
+}
+
+/**
+ * The users of `scenario`: its listed users, or the population it describes.
+ */
+export function createUserPopulation(scenario: Scenario): UserPopulation {
+  if (!scenario.population) {
+    // Listed users do everything and are picked uniformly, as they always were
+    const users = scenario.users!;
+    return {
+      users,
+      liquidators: [],
+      arbitrageurs: [],
+      pick() {
+        return randomElement(users);
+      },
+    };
+  }
+
+  const { size, activitySkew, arbitrageShare, ...population } = scenario.population;
+  const seed = population.seed ?? scenario.name;
+  const derive = (role: string, count: number) =>
+    Array.from({ length: count }, (_, index) => derivedAddress(seed, role, index));
+  const users = derive('user', size);
+  const liquidators = derive('liquidator', population.liquidators);
+  const arbitrageurs = derive('arbitrageur', population.arbitrageurs);
+
+  // Activity of each regular user, as a share of all of it
+  const activity = users.map((_, k) => (k + 1) ** -activitySkew);
+  const totalActivity = activity.reduce((sum, weight) => sum + weight, 0);
+  const regular = users.map((address, k) => ({ address, weight: activity[k] / totalActivity }));
+  // Arbitrageurs split their share of the trades evenly
+  const traders =
+    arbitrageurs.length > 0
+      ? [
+          ...regular.map(({ address, weight }) => ({
+            address,
+            weight: weight * (1 - arbitrageShare),
+          })),
+          ...arbitrageurs.map((address) => ({
+            address,
+            weight: arbitrageShare / arbitrageurs.length,
+          })),
+        ]
+      : regular;
+
+  const pickers = {
+    any: createPicker(regular),
+    trade: createPicker(traders),
+    // Without bots anyone may liquidate
+    liquidation: liquidators.length > 0 ? () => randomElement(liquidators) : createPicker(regular),
+  };
+
+  return {
+    users,
+    liquidators,
+    arbitrageurs,
+    pick(action = 'any') {
+      return pickers[action]();
+    },
+  };
+}
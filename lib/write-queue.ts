@@ -0,0 +1,128 @@
+import type { CreateEntityParameters } from '@arkiv-network/sdk';
+import { withRetry, type FailureClassification, type RetryPolicy } from './retry';
+import type { EntitySink, SinkReceipt } from './sinks';
+
+// ============================================================================
+// BATCHED WRITE QUEUE
+// ============================================================================
+//
+// Collects entities into batches of `batchSize` and writes each batch as one
+// sink call (one mutateEntities transaction on Arkiv), keeping at most
+// `concurrency` batches in flight. Every queued entity carries an opaque
+// `item` that is handed back to the callbacks once its batch settles.
+// Transient failures are retried per batch according to `retry`.
+
+export interface QueuedEntity<T> {
+  entity: CreateEntityParameters;
+  item: T;
+}
+
+export interface WriteQueueOptions<T> {
+  batchSize: number;
+  concurrency: number;
+  retry?: RetryPolicy;
+  onConfirmed: (item: T, receipt: SinkReceipt) => void;
+  onRetry?: (items: T[], attempt: number, delayMs: number, reason: FailureClassification) => void;
+  onFailed: (failed: QueuedEntity<T>[], error: unknown) => void | Promise<void>;
+}
+
+export interface WriteQueueStats {
+  transactions: number;
+  confirmed: number;
+  failed: number;
+  startedAt: number;
+}
+
+export interface WriteQueue<T> {
+  readonly stats: WriteQueueStats;
+  // Resolves once the entity is queued; true when this push dispatched a batch
+  push(entity: CreateEntityParameters, item: T): Promise<boolean>;
+  // Dispatch any partial batch and wait for everything in flight
+  drain(): Promise<void>;
+}
+
+export function createWriteQueue<T>(
+  sink: EntitySink,
+  options: WriteQueueOptions<T>
+): WriteQueue<T> {
+  const { batchSize, concurrency, retry, onConfirmed, onRetry, onFailed } = options;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Batch size must be a positive integer (got ${batchSize})`);
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer (got ${concurrency})`);
+  }
+
+  const stats: WriteQueueStats = {
+    transactions: 0,
+    confirmed: 0,
+    failed: 0,
+    startedAt: Date.now(),
+  };
+  const inFlight = new Set<Promise<void>>();
+  let pending: QueuedEntity<T>[] = [];
+
+  async function send(batch: QueuedEntity<T>[]): Promise<void> {
+    const entities = batch.map(({ entity }) => entity);
+    const items = batch.map(({ item }) => item);
+    try {
+      const receipts = await withRetry(
+        async () =>
+          entities.length === 1 ? [await sink.write(entities[0])] : sink.writeBatch(entities),
+        retry,
+        (attempt, delayMs, reason) => onRetry?.(items, attempt, delayMs, reason)
+      );
+      stats.transactions++;
+      stats.confirmed += batch.length;
+      batch.forEach(({ item }, i) => onConfirmed(item, receipts[i]));
+    } catch (error) {
+      stats.failed += batch.length;
+      await onFailed(batch, error);
+    }
+  }
+
+  async function dispatch(): Promise<void> {
+    const batch = pending;
+    pending = [];
+
+    // Wait for a free slot; the sink assigns nonces in dispatch order
+    while (inFlight.size >= concurrency) {
+      await Promise.race(inFlight);
+    }
+
+    const task = send(batch).finally(() => inFlight.delete(task));
+    inFlight.add(task);
+  }
+
+  return {
+    stats,
+    async push(entity, item) {
+      pending.push({ entity, item });
+      if (pending.length < batchSize) {
+        return false;
+      }
+      await dispatch();
+      return true;
+    },
+    async drain() {
+      if (pending.length > 0) {
+        await dispatch();
+      }
+      await Promise.all(inFlight);
+    },
+  };
+}
+
+/**
+ * One-line throughput summary for the end of a run.
+ */
+export function formatThroughput(stats: WriteQueueStats, now = Date.now()): string {
+  const seconds = Math.max((now - stats.startedAt) / 1000, 0.001);
+  const perSecond = stats.confirmed / seconds;
+  const perTx = stats.transactions > 0 ? stats.confirmed / stats.transactions : 0;
+  return (
+    `${stats.confirmed} entities in ${seconds.toFixed(1)}s ` +
+    `(${perSecond.toFixed(2)} entities/s, ${stats.transactions} transactions, ` +
+    `${perTx.toFixed(1)} entities/tx)`
+  );
+}
@@ -0,0 +1,189 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type {
+  Attribute,
+  CreateEntityParameters,
+  Hex,
+  PublicArkivClient,
+  UpdateEntityParameters,
+  WalletArkivClient,
+} from '@arkiv-network/sdk';
+import { createArkivSink, type IfExists } from '../lib/sinks';
+
+const OWNER = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1';
+
+function event(txHash: string, note = ''): CreateEntityParameters {
+  return {
+    payload: new TextEncoder().encode(JSON.stringify({ txHash, note })),
+    contentType: 'application/json',
+    attributes: [
+      { key: 'entityType', value: 'protocol_event' },
+      { key: 'network', value: 'ethereum' },
+      { key: 'txHash', value: txHash },
+      { key: 'logIndex', value: 0 },
+    ],
+    expiresIn: 100,
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+// An account's entities on a fake chain, with clients whose queries return
+// every stored entity (the sink picks its keys out) and whose transactions
+// take a moment to land. The chain keeps the nonces transactions were sent
+// with, and fails the next nonce lookup or transaction when asked to.
+function fakeArkiv() {
+  const stored = new Map<Hex, { attributes: Attribute[]; payload: Uint8Array }>();
+  const chain = {
+    pending: 7,
+    lookups: 0,
+    sent: [] as number[],
+    failLookup: false,
+    failSend: false,
+  };
+
+  const query = {
+    where: () => query,
+    ownedBy: () => query,
+    withAttributes: () => query,
+    limit: () => query,
+    async fetch() {
+      await tick();
+      const entities = [...stored].map(([key, { attributes }]) => ({ key, attributes }));
+      return { entities, hasNextPage: () => false, next: async () => {} };
+    },
+  };
+  const publicClient = {
+    async getTransactionCount() {
+      chain.lookups++;
+      await tick();
+      if (chain.failLookup) {
+        chain.failLookup = false;
+        throw new Error('fetch failed');
+      }
+      return chain.pending;
+    },
+    buildQuery: () => query,
+  } as unknown as PublicArkivClient;
+
+  const walletClient = {
+    account: { address: OWNER },
+    async mutateEntities(
+      {
+        creates = [],
+        updates = [],
+      }: {
+        creates?: CreateEntityParameters[];
+        updates?: UpdateEntityParameters[];
+      },
+      { nonce }: { nonce: number }
+    ) {
+      chain.sent.push(nonce);
+      await tick();
+      if (chain.failSend) {
+        chain.failSend = false;
+        throw new Error('nonce too low');
+      }
+      chain.pending = nonce + 1;
+      const txHash = `0x${nonce.toString(16).padStart(64, '0')}` as Hex;
+      const createdEntities = creates.map(({ attributes, payload }) => {
+        const key = `0x${(stored.size + 1).toString(16).padStart(64, '0')}` as Hex;
+        stored.set(key, { attributes, payload });
+        return key;
+      });
+      for (const { entityKey, attributes, payload } of updates) {
+        stored.set(entityKey, { attributes, payload });
+      }
+      return { txHash, createdEntities, updatedEntities: [], deletedEntities: [] };
+    },
+  } as unknown as WalletArkivClient;
+
+  return {
+    stored,
+    chain,
+    sink: (ifExists?: IfExists) => createArkivSink(walletClient, publicClient, { ifExists }),
+  };
+}
+
+describe('arkiv sink nonces', () => {
+  it('assigns nonces locally in call order', async () => {
+    const arkiv = fakeArkiv();
+    const sink = arkiv.sink();
+    await Promise.all(['0xa', '0xb', '0xc'].map((txHash) => sink.writeBatch([event(txHash)])));
+
+    assert.deepEqual(arkiv.chain.sent, [7, 8, 9]);
+    assert.equal(arkiv.chain.lookups, 1);
+  });
+
+  it('resyncs from the pending nonce after a failed send', async () => {
+    const arkiv = fakeArkiv();
+    const sink = arkiv.sink();
+    await sink.writeBatch([event('0xa')]);
+    arkiv.chain.failSend = true;
+    await assert.rejects(sink.writeBatch([event('0xb')]), /nonce too low/);
+    await sink.writeBatch([event('0xb')]);
+
+    assert.deepEqual(arkiv.chain.sent, [7, 8, 8]);
+    assert.equal(arkiv.chain.lookups, 2);
+  });
+
+  it('fails the writes waiting on a failed nonce lookup, then resyncs', async () => {
+    const arkiv = fakeArkiv();
+    const sink = arkiv.sink();
+    arkiv.chain.failLookup = true;
+    const results = await Promise.allSettled([
+      sink.writeBatch([event('0xa')]),
+      sink.writeBatch([event('0xb')]),
+    ]);
+    assert.deepEqual(
+      results.map(({ status }) => status),
+      ['rejected', 'rejected']
+    );
+    assert.deepEqual(arkiv.chain.sent, []);
+
+    await sink.writeBatch([event('0xa')]);
+    assert.deepEqual(arkiv.chain.sent, [7]);
+    assert.equal(arkiv.chain.lookups, 2);
+  });
+});
+
+describe('arkiv sink in idempotent mode', () => {
+  it('writes a key found twice in a batch once', async () => {
+    const arkiv = fakeArkiv();
+    const receipts = await arkiv
+      .sink('skip')
+      .writeBatch([event('0xa'), event('0xb'), event('0xa')]);
+
+    assert.equal(arkiv.stored.size, 2);
+    assert.equal(receipts[0].existing, undefined);
+    assert.equal(receipts[2].existing, 'skip');
+    assert.equal(receipts[2].entityKey, receipts[0].entityKey);
+  });
+
+  it('stores the last entity of a key found twice in update mode', async () => {
+    const arkiv = fakeArkiv();
+    const receipts = await arkiv
+      .sink('update')
+      .writeBatch([event('0xa', 'first'), event('0xa', 'last')]);
+
+    assert.equal(arkiv.stored.size, 1);
+    const [{ payload }] = arkiv.stored.values();
+    assert.deepEqual(payload, event('0xa', 'last').payload);
+    assert.equal(receipts[1].existing, 'update');
+    assert.equal(receipts[1].entityKey, receipts[0].entityKey);
+  });
+
+  it('does not store a key twice from concurrent batches', async () => {
+    const arkiv = fakeArkiv();
+    const sink = arkiv.sink('skip');
+    const [first, second] = await Promise.all([
+      sink.writeBatch([event('0xa'), event('0xb')]),
+      sink.writeBatch([event('0xb'), event('0xc')]),
+    ]);
+
+    assert.equal(arkiv.stored.size, 3);
+    assert.equal(second[0].existing, 'skip');
+    assert.equal(second[0].entityKey, first[1].entityKey);
+    assert.equal(second[1].existing, undefined);
+  });
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { blockAt, createBackfillClock, parseBackfillRange } from '../lib/backfill';
+import { UsageError } from '../lib/cli';
+import { SOURCE_NETWORKS } from '../lib/networks';
+
+describe('backfill range', () => {
+  it('parses --from and --to', () => {
+    assert.deepEqual(parseBackfillRange('2024-03-04', '2024-03-11'), {
+      from: Date.parse('2024-03-04T00:00:00Z'),
+      to: Date.parse('2024-03-11T00:00:00Z'),
+    });
+  });
+
+  it('rejects invalid ranges as usage errors', () => {
+    for (const [from, to, message] of [
+      ['yesterday', '2024-03-11', /expected ISO dates/],
+      ['2024-03-11', '2024-03-04', /--from must be before --to/],
+      ['2024-03-04', '2024-03-04', /--from must be before --to/],
+      ['2022-01-01', '2022-02-01', /Ethereum block times are only fixed after/],
+    ] as const) {
+      assert.throws(
+        () => parseBackfillRange(from, to),
+        (error) => error instanceof UsageError && message.test(error.message)
+      );
+    }
+    assert.throws(
+      () => parseBackfillRange('2023-01-01', '2023-02-01', [SOURCE_NETWORKS.base]),
+      UsageError
+    );
+  });
+
+  it('places entities on non-decreasing blocks inside the range', () => {
+    const range = parseBackfillRange('2024-03-04', '2024-03-05');
+    const clock = createBackfillClock(range, 500);
+    let previous = blockAt(range.from);
+    for (let i = 0; i < 500; i++) {
+      const block = clock.blockOf(i);
+      assert.ok(block >= previous && block <= blockAt(range.to), `block of #${i}`);
+      previous = block;
+    }
+  });
+});
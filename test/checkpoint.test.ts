@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { CHECKPOINT_VERSION, createCheckpointTracker, loadCheckpoint } from '../lib/checkpoint';
+import { createGenerator, type GeneratorState } from '../lib/generator';
+import { seedRandom } from '../lib/random';
+import { loadScenario } from '../lib/scenario';
+import type { GeneratedEntity } from '../lib/types';
+
+const dir = mkdtemp(join(tmpdir(), 'checkpoints-'));
+after(async () => rm(await dir, { recursive: true }));
+
+describe('checkpoint resume', () => {
+  it('regenerates the same entities from a saved generator state', async () => {
+    const scenario = await loadScenario('multi-network');
+    seedRandom('resume-test');
+    const generator = createGenerator(scenario, { syntheticClock: true });
+    const states: GeneratorState[] = [];
+    const entities: GeneratedEntity[] = [];
+    for (let i = 0; i < 60; i++) {
+      // Saved as JSON, like the checkpoint file
+      states.push(JSON.parse(JSON.stringify(generator.getState())));
+      entities.push(generator.next(true)!);
+    }
+
+    for (const resumeIndex of [1, 17, 42]) {
+      // A resumed run seeds the PRNG again, then restores its state
+      seedRandom('resume-test');
+      const resumed = createGenerator(scenario, { syntheticClock: true }, states[resumeIndex]);
+      for (let i = resumeIndex; i < entities.length; i++) {
+        assert.deepEqual(resumed.next(true), entities[i], `entity #${i} after #${resumeIndex}`);
+      }
+    }
+  });
+
+  it('resumes after the last entity settled in order', async () => {
+    const path = join(await dir, 'run.json');
+    const tracker = createCheckpointTracker(path, { config: { count: 5 }, state: 's0' });
+    for (let i = 1; i <= 4; i++) {
+      tracker.snapshot(i, `s${i}`);
+    }
+
+    // Entity 1 lands before entity 0: nothing before it is settled yet
+    tracker.confirm(1, { entityKey: '0x01' });
+    assert.equal(tracker.resumeIndex, 0);
+    tracker.confirm(0, { entityKey: '0x00' });
+    assert.equal(tracker.resumeIndex, 2);
+    tracker.deadLetter(3);
+    assert.equal(tracker.resumeIndex, 2);
+    await tracker.flush();
+
+    const checkpoint = await loadCheckpoint<{ count: number }, string>(path);
+    assert.equal(checkpoint.completed, false);
+    assert.equal(checkpoint.resumeIndex, 2);
+    assert.equal(checkpoint.state, 's2');
+    assert.deepEqual(
+      checkpoint.confirmed.map(({ index }) => index),
+      [1, 0]
+    );
+    assert.deepEqual(checkpoint.deadLettered, [3]);
+
+    // The resumed run regenerates from entity 2 and skips entity 3
+    const resumed = createCheckpointTracker(path, checkpoint);
+    assert.equal(resumed.isSettled(2), false);
+    assert.equal(resumed.isSettled(3), true);
+    resumed.snapshot(3, 's3');
+    resumed.snapshot(4, 's4');
+    resumed.confirm(2, { entityKey: '0x02' });
+    assert.equal(resumed.resumeIndex, 4);
+    await resumed.flush(true);
+    assert.equal((await loadCheckpoint(path)).state, 's4');
+  });
+
+  it('refuses checkpoints of another version', async () => {
+    const path = join(await dir, 'old.json');
+    const tracker = createCheckpointTracker(path, { config: { count: 5 }, state: 's0' });
+    await tracker.flush();
+    const checkpoint = await loadCheckpoint(path);
+    await writeFile(path, JSON.stringify({ ...checkpoint, version: CHECKPOINT_VERSION - 1 }));
+
+    await assert.rejects(loadCheckpoint(path), /old\.json: checkpoint version 1 is not supported/);
+  });
+});
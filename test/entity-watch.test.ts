@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConfigError } from '../lib/cli';
+import { watchEntities } from '../lib/entity-watch';
+
+describe('entity watch', () => {
+  it('fails on a config error instead of reconnecting', async () => {
+    const statuses: string[] = [];
+    let connections = 0;
+    const watcher = watchEntities(
+      () => {
+        connections++;
+        throw new ConfigError('Please set WS_URL in the .env file');
+      },
+      {},
+      { onChange: () => {}, onStatus: (message) => statuses.push(message) },
+      { reconnect: { maxAttempts: Infinity, baseDelayMs: 1, maxDelayMs: 1 } }
+    );
+
+    await assert.rejects(watcher.failed, ConfigError);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal(connections, 1);
+    assert.deepEqual(statuses, []);
+    await watcher.stop();
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createGenerator } from '../lib/generator';
+import { seedRandom } from '../lib/random';
+import { loadScenario } from '../lib/scenario';
+import type { AggregatedMetric, ProtocolEvent } from '../lib/types';
+
+describe('hourly summaries', () => {
+  it('summarize the events of each protocol on each network', async () => {
+    seedRandom('summaries-test');
+    const generator = createGenerator(await loadScenario('multi-network'), {
+      syntheticClock: true,
+    });
+    const events: ProtocolEvent[] = [];
+    const summaries: AggregatedMetric[] = [];
+    for (let entity = generator.next(true); entity; entity = generator.next(events.length < 400)) {
+      if (entity.entityType === 'protocol_event') {
+        events.push(entity);
+      } else if (entity.entityType === 'aggregated_metric') {
+        summaries.push(entity);
+      }
+    }
+
+    const hourOf = (timestamp: string) => timestamp.slice(0, 13);
+    for (const summary of summaries) {
+      const covered = events.filter(
+        (event) =>
+          event.protocol === summary.protocol &&
+          event.network === summary.network &&
+          hourOf(event.timestamp) === hourOf(summary.timestamp)
+      );
+      assert.equal(summary.transactionCount, new Set(covered.map(({ txHash }) => txHash)).size);
+      assert.equal(
+        Object.values(summary.eventTypeCounts).reduce((sum, n) => sum + n, 0),
+        covered.length
+      );
+    }
+    // Some transactions emit several events
+    assert.ok(
+      summaries.some(
+        ({ transactionCount, eventTypeCounts }) =>
+          transactionCount < Object.values(eventTypeCounts).reduce((sum, n) => sum + n, 0)
+      )
+    );
+    const keys = summaries.map(({ protocol, network, timestamp }) =>
+      [protocol, network, timestamp].join('/')
+    );
+    assert.equal(new Set(keys).size, keys.length);
+    assert.ok(new Set(summaries.map(({ network }) => network)).size > 1);
+  });
+});
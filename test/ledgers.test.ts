@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createAaveLedger, type PriceOf } from '../lib/aave-ledger';
+import { createCompoundLedger } from '../lib/compound-ledger';
+import { createCurvePools, CURVE_POOL_ADDRESSES } from '../lib/curve-pools';
+
+function approx(actual: number, expected: number, tolerance = 1e-9) {
+  assert.ok(
+    Math.abs(actual - expected) <= Math.abs(expected) * tolerance,
+    `${actual} is not within ${tolerance} of ${expected}`
+  );
+}
+
+function prices(wethPrice: number): PriceOf {
+  return (asset) => (asset === 'WETH' ? wethPrice : 1);
+}
+
+describe('aave ledger', () => {
+  const RESERVES = {
+    WETH: { ltv: 0.8, liquidationThreshold: 0.825, liquidationBonus: 1.05 },
+    USDC: { ltv: 0.75, liquidationThreshold: 0.78, liquidationBonus: 1.045 },
+  };
+
+  function borrower() {
+    const ledger = createAaveLedger(RESERVES);
+    ledger.supply('alice', 'WETH', 10);
+    ledger.borrow('alice', 'USDC', 10_000);
+    return ledger;
+  }
+
+  it('limits borrows and withdrawals by the health factor', () => {
+    const ledger = borrower();
+    approx(ledger.healthFactor('alice', prices(2000)), 1.65);
+    approx(ledger.availableBorrowsUSD('alice', prices(2000)), 6000);
+    // Collateral above what keeps the health factor at 1: (16500 - 10000) / 0.825 / 2000
+    const max = ledger.maxWithdraw('alice', 'WETH', prices(2000));
+    approx(max, 6500 / 0.825 / 2000);
+    ledger.withdraw('alice', 'WETH', max);
+    approx(ledger.healthFactor('alice', prices(2000)), 1);
+  });
+
+  it('only takes what a user has', () => {
+    const ledger = borrower();
+    assert.throws(() => ledger.withdraw('alice', 'WETH', 11), /Cannot take 11 WETH/);
+    assert.throws(() => ledger.repay('alice', 'USDC', 10_001), /from debt/);
+    assert.throws(() => ledger.supply('alice', 'DAI', 1), /No Aave reserve/);
+    ledger.repay('alice', 'USDC', 10_000);
+    assert.deepEqual(ledger.borrowers(), []);
+    assert.equal(ledger.healthFactor('alice', prices(2000)), Infinity);
+  });
+
+  it('liquidates half the debt, or all of it below the close factor threshold', () => {
+    // Health factor 0.99: half the debt, with the 5% bonus in collateral
+    const half = borrower().liquidate('alice', 'USDC', 'WETH', prices(1200));
+    approx(half.debtToCover, 5000);
+    approx(half.liquidatedCollateralAmount, (5000 * 1.05) / 1200);
+
+    // Health factor 0.825: all of it, capped by the collateral there is
+    const ledger = borrower();
+    const all = ledger.liquidate('alice', 'USDC', 'WETH', prices(1000));
+    approx(all.liquidatedCollateralAmount, 10);
+    approx(all.debtToCover, (10 * 1000) / 1.05);
+    assert.deepEqual(ledger.suppliers(), []);
+  });
+
+  it('restores positions from their saved state', () => {
+    const ledger = borrower();
+    const restored = createAaveLedger(RESERVES, ledger.getState());
+    restored.repay('alice', 'USDC', 4000);
+    assert.equal(ledger.position('alice').debt.USDC, 10_000);
+    assert.equal(restored.position('alice').debt.USDC, 6000);
+  });
+});
+
+describe('compound ledger', () => {
+  const COMET = {
+    base: 'USDC',
+    collateral: {
+      WETH: {
+        borrowCollateralFactor: 0.83,
+        liquidateCollateralFactor: 0.9,
+        liquidationFactor: 0.95,
+      },
+    },
+    storeFrontPriceFactor: 0.5,
+  };
+
+  function borrower() {
+    const ledger = createCompoundLedger(COMET);
+    ledger.supply('bob', 'WETH', 5);
+    ledger.withdraw('bob', 'USDC', 5000);
+    return ledger;
+  }
+
+  it('borrows base beyond the supplied balance and repays debt first', () => {
+    const ledger = borrower();
+    assert.equal(ledger.position('bob').baseBalance, -5000);
+    assert.deepEqual(ledger.borrowers(), ['bob']);
+    approx(ledger.borrowCapacityUSD('bob', prices(2000)), 5 * 2000 * 0.83 - 5000);
+
+    ledger.supply('bob', 'USDC', 6000);
+    assert.equal(ledger.position('bob').baseBalance, 1000);
+    assert.deepEqual(ledger.borrowers(), []);
+  });
+
+  it('absorbs undercollateralized positions and sells their collateral at a discount', () => {
+    const ledger = borrower();
+    assert.equal(ledger.isLiquidatable('bob', prices(2000)), false);
+    assert.equal(ledger.isLiquidatable('bob', prices(1000)), true);
+
+    // 5 WETH at 1000 × 0.95 does not cover the debt: the rest is written off
+    const absorption = ledger.absorb('bob', prices(1000));
+    assert.deepEqual(absorption, { basePaidOut: 5000, collateral: { WETH: 5 } });
+    assert.deepEqual(ledger.position('bob'), { baseBalance: 0, collateral: {} });
+
+    // Half of the 5% liquidation penalty goes to the buyer
+    approx(ledger.collateralPrice('WETH', prices(1000)), 975);
+    approx(ledger.buyCollateral('WETH', 2, prices(1000)), 1950);
+    approx(ledger.reserves().WETH, 3);
+    assert.throws(() => ledger.buyCollateral('WETH', 4, prices(1000)), /Cannot take 4 WETH/);
+  });
+});
+
+describe('curve pools', () => {
+  const THREE_POOL = {
+    name: 'DAI/USDC/USDT',
+    coins: ['DAI', 'USDC', 'USDT'],
+    A: 2000,
+    fee: 0.0001,
+    address: CURVE_POOL_ADDRESSES['DAI/USDC/USDT'],
+  };
+
+  function balancedPool() {
+    const pools = createCurvePools();
+    pools.pool(THREE_POOL);
+    const { lpAmount } = pools.addLiquidity(THREE_POOL.name, 'lp', [1e6, 1e6, 1e6]);
+    return { pools, lpAmount };
+  }
+
+  it('mints the invariant for the first deposit', () => {
+    const { lpAmount } = balancedPool();
+    // A balanced pool's invariant is the sum of its balances
+    approx(lpAmount, 3e6);
+  });
+
+  it('trades close to 1:1 and keeps the fee in the pool', () => {
+    const { pools } = balancedPool();
+    const { amountOut, feeAmount } = pools.exchange(THREE_POOL.name, 0, 1, 1000);
+    approx(feeAmount, (amountOut + feeAmount) * 0.0001);
+    approx(amountOut + feeAmount, 1000, 1e-5);
+    assert.ok(amountOut + feeAmount < 1000);
+
+    const [pool] = pools.pools();
+    approx(pool.balances[0], 1e6 + 1000);
+    approx(pool.balances[1], 1e6 - amountOut);
+  });
+
+  it('mints fewer LP tokens for deposits that unbalance the pool', () => {
+    const { pools } = balancedPool();
+    const balanced = pools.addLiquidity(THREE_POOL.name, 'a', [1000, 1000, 1000]);
+    const lopsided = pools.addLiquidity(THREE_POOL.name, 'b', [3000, 0, 0]);
+    assert.ok(lopsided.lpAmount < balanced.lpAmount);
+    assert.ok(lopsided.fees[0] > 0);
+  });
+
+  it('grows the value of LP tokens as the pool trades', () => {
+    const { pools, lpAmount } = balancedPool();
+    for (let i = 0; i < 10; i++) {
+      const { amountOut } = pools.exchange(THREE_POOL.name, 0, 2, 10_000);
+      pools.exchange(THREE_POOL.name, 2, 0, amountOut);
+    }
+    const { amounts } = pools.removeLiquidity(THREE_POOL.name, 'lp', lpAmount);
+    const withdrawn = amounts.reduce((sum, amount) => sum + amount, 0);
+    assert.ok(withdrawn > 3e6, `${withdrawn} is not above the 3e6 deposited`);
+    assert.throws(() => pools.removeLiquidity(THREE_POOL.name, 'lp', 1), /Cannot burn/);
+  });
+});
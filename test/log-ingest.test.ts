@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { Interface, type JsonRpcProvider } from 'ethers';
+import { entityAttributes } from '../lib/attributes';
+import { decodePayload, encodePayload } from '../lib/encoding';
+import { readLogFile, UnmappedLogError, type RawLog } from '../lib/evm-logs';
+import { createLogIngester } from '../lib/log-ingest';
+import { naturalKey } from '../lib/natural-keys';
+import { SOURCE_NETWORKS } from '../lib/networks';
+import { runTags } from '../lib/run-tags';
+import { loadScenario } from '../lib/scenario';
+import { validateEntity } from '../lib/schema';
+import { createMemorySink, type MemorySink } from '../lib/sinks';
+import type { AaveEvent, ProtocolEvent } from '../lib/types';
+
+const FIXTURE = new URL('../fixtures/mainnet-logs.json', import.meta.url).pathname;
+
+// The Aave and Uniswap logs of the fixture, in file order
+const DECODED = [
+  {
+    protocol: 'aave-v3',
+    eventType: 'Supply',
+    logIndex: 1,
+    txHash: '0x9564fc6631f5e2e2b9acafa8c1921356e26635925faaf6a121c67f3734524a41',
+  },
+  {
+    protocol: 'aave-v3',
+    eventType: 'Borrow',
+    logIndex: 177,
+    txHash: '0x76d075398e8306ac4724a1cef2e47a292ebaaa4c44c18e43224607d3429ced97',
+  },
+  {
+    protocol: 'uniswap-v3',
+    eventType: 'Swap',
+    logIndex: 175,
+    txHash: '0x4261ab05ba5039a5f385074a7a3607cec8a9bedb9f10cf5d0694d78e79de1110',
+  },
+  {
+    protocol: 'uniswap-v3',
+    eventType: 'Swap',
+    logIndex: 177,
+    txHash: '0x4261ab05ba5039a5f385074a7a3607cec8a9bedb9f10cf5d0694d78e79de1110',
+  },
+  {
+    protocol: 'aave-v3',
+    eventType: 'Repay',
+    logIndex: 171,
+    txHash: '0x95fed190e8400b4417c7e552ede5edd502d43dbce67ad489bcdcff92f04c6357',
+  },
+  {
+    protocol: 'aave-v3',
+    eventType: 'Withdraw',
+    logIndex: 170,
+    txHash: '0x614b61d4206e4d943c4d10c8b4c7eb64a068933ab872cc44976fadc3abe2ef6c',
+  },
+  {
+    protocol: 'uniswap-v3',
+    eventType: 'Mint',
+    logIndex: 165,
+    txHash: '0xf8502ef4bf742c0a823c34a92fd9d91b73c134039c17eaad9f73895ed2377842',
+  },
+  {
+    protocol: 'aave-v3',
+    eventType: 'LiquidationCall',
+    logIndex: 163,
+    txHash: '0xf89311b5551016f9bd8408b17e08d69e605893702b8bdbade9c8590c8adc3a3f',
+  },
+  {
+    protocol: 'uniswap-v3',
+    eventType: 'Burn',
+    logIndex: 160,
+    txHash: '0x77c2ec6331954d6484f213f3af9cbc7d19c2632b8e4106dc9fa74b8a3567970b',
+  },
+  {
+    protocol: 'uniswap-v3',
+    eventType: 'Collect',
+    logIndex: 161,
+    txHash: '0x77c2ec6331954d6484f213f3af9cbc7d19c2632b8e4106dc9fa74b8a3567970b',
+  },
+];
+
+// Ingests the fixture offline as the ingest command does, into a memory sink
+async function ingestFixture() {
+  const ingester = createLogIngester({
+    network: SOURCE_NETWORKS.ethereum,
+    scenario: await loadScenario('default'),
+  });
+  const tags = runTags('log-ingest', 'test-run', {});
+  const sink = createMemorySink();
+  const skipped: { log: RawLog; reason: string }[] = [];
+
+  for (const log of await readLogFile(FIXTURE)) {
+    try {
+      const decoded = await ingester.ingest(log);
+      if (!decoded) {
+        continue;
+      }
+      const event = validateEntity<ProtocolEvent>({ ...decoded, ...tags });
+      const { payload, contentType, attribute } = encodePayload(event, 'json');
+      await sink.write({
+        payload,
+        contentType,
+        attributes: [...entityAttributes(event), attribute],
+        expiresIn: 10000,
+      });
+    } catch (error) {
+      if (!(error instanceof UnmappedLogError)) {
+        throw error;
+      }
+      skipped.push({ log, reason: error.message });
+    }
+  }
+  return { sink, skipped };
+}
+
+describe('log ingestion', () => {
+  let sink: MemorySink;
+  let skipped: { log: RawLog; reason: string }[];
+  before(async () => ({ sink, skipped } = await ingestFixture()));
+
+  it('decodes the Aave and Uniswap logs of the fixture', () => {
+    const events = sink.entities.map((entity) => decodePayload(entity) as ProtocolEvent);
+    assert.deepEqual(
+      events.map(({ protocol, eventType, logIndex, txHash }) => ({
+        protocol,
+        eventType,
+        logIndex,
+        txHash,
+      })),
+      DECODED
+    );
+    for (const event of events) {
+      assert.equal(event.network, 'ethereum');
+      assert.match(event.generatorVersion ?? '', /^log-ingest@/);
+    }
+  });
+
+  it('stores the events under the natural key of their log', () => {
+    assert.deepEqual(
+      sink.entities.map(({ attributes }) => naturalKey(attributes)?.id),
+      DECODED.map(({ txHash, logIndex }) => `protocol_event/ethereum/${txHash}/${logIndex}`)
+    );
+  });
+
+  it('accepts liquidations of real logs by the liquidated user', () => {
+    const liquidation = sink.entities
+      .map((entity) => decodePayload<ProtocolEvent>(entity))
+      .find(({ eventType }) => eventType === 'LiquidationCall') as AaveEvent;
+    const selfLiquidation = { ...liquidation, liquidator: liquidation.user };
+    assert.doesNotThrow(() => validateEntity(selfLiquidation));
+    assert.throws(
+      () => validateEntity({ ...selfLiquidation, seed: 'demo' }),
+      /cannot liquidate their own position/
+    );
+  });
+
+  it('keeps amounts too large for a numeric attribute as strings under their own key', () => {
+    const supply = decodePayload<ProtocolEvent>(sink.entities[0]);
+    const whale = { ...supply, amount: '12345678901234.5', amountUSD: '12345678901234.50' };
+    const attributes = new Map(entityAttributes(whale).map(({ key, value }) => [key, value]));
+    assert.equal(attributes.get('amount'), undefined);
+    assert.equal(attributes.get('amountRaw'), '12345678901234.5');
+    assert.equal(attributes.get('amountUSD'), 1234567890123450);
+  });
+
+  it('skips the logs that take a node to map', () => {
+    assert.deepEqual(
+      skipped.map(({ log, reason }) => [Number(log.logIndex), reason]),
+      [
+        [
+          158,
+          'unknown token 0xBe9895146f7AF43049ca1c1AE358B0541Ea49704 (reading it takes a node, --rpc)',
+        ],
+        [
+          157,
+          'reading factory() of 0x109830a1AAaD605BbF02a9dFA7B0B92EC2FB7dAa takes a node (--rpc)',
+        ],
+      ]
+    );
+  });
+
+  it('skips the logs of pools made by another factory', async () => {
+    const pool = '0x109830a1AAaD605BbF02a9dFA7B0B92EC2FB7dAa';
+    const [log] = (await readLogFile(FIXTURE)).filter(({ address }) => address === pool);
+    // A node where the pool is a SushiSwap V3 one
+    const factory = new Interface(['function factory() view returns (address)']);
+    const provider = {
+      async call({ data }: { data: string }) {
+        assert.equal(data, factory.getFunction('factory')!.selector);
+        return factory.encodeFunctionResult('factory', [
+          '0xbACEB8eC6b9355Dfc0269C18bac9d6E2Bdc29C4F',
+        ]);
+      },
+    } as unknown as JsonRpcProvider;
+    const ingester = createLogIngester({
+      network: SOURCE_NETWORKS.ethereum,
+      scenario: await loadScenario('default'),
+      provider,
+    });
+
+    await assert.rejects(
+      ingester.ingest(log),
+      new UnmappedLogError(
+        `${pool} is not a Uniswap V3 pool (factory 0xbACEB8eC6b9355Dfc0269C18bac9d6E2Bdc29C4F)`
+      )
+    );
+  });
+});
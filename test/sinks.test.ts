@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import type { CreateEntityParameters } from '@arkiv-network/sdk';
+import {
+  createFileSink,
+  createMemorySink,
+  fromEntityRecord,
+  type EntityRecord,
+} from '../lib/sinks';
+
+const dir = mkdtemp(join(tmpdir(), 'sinks-'));
+after(async () => rm(await dir, { recursive: true }));
+
+const JSON_ENTITY: CreateEntityParameters = {
+  payload: new TextEncoder().encode(JSON.stringify({ eventType: 'Supply' })),
+  contentType: 'application/json',
+  attributes: [
+    { key: 'eventType', value: 'Supply' },
+    { key: 'blockNumber', value: 19000000 },
+  ],
+  expiresIn: 100,
+};
+
+const BINARY_ENTITY: CreateEntityParameters = {
+  payload: new Uint8Array([0, 1, 2, 254, 255]),
+  contentType: 'application/octet-stream',
+  attributes: [{ key: 'eventType', value: 'Swap' }],
+  expiresIn: 100,
+};
+
+async function writeAll(path: string, entities: CreateEntityParameters[]) {
+  const sink = createFileSink(path);
+  for (const entity of entities) {
+    await sink.write(entity);
+  }
+  await sink.close();
+  return readFile(path, 'utf8');
+}
+
+describe('sinks', () => {
+  it('keep entities in memory, in order', async () => {
+    const sink = createMemorySink();
+    await sink.write(JSON_ENTITY);
+    await sink.write(BINARY_ENTITY);
+    await sink.close();
+    assert.deepEqual(sink.entities, [JSON_ENTITY, BINARY_ENTITY]);
+  });
+
+  it('write NDJSON records that read back to the same entities', async () => {
+    const content = await writeAll(join(await dir, 'entities.ndjson'), [
+      JSON_ENTITY,
+      BINARY_ENTITY,
+    ]);
+    const records = content
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as EntityRecord);
+
+    // Text payloads stay readable, binary ones are base64
+    assert.deepEqual(
+      records.map(({ payloadEncoding }) => payloadEncoding),
+      ['utf8', 'base64']
+    );
+    assert.deepEqual(records.map(fromEntityRecord), [JSON_ENTITY, BINARY_ENTITY]);
+  });
+
+  it('write a JSON array to .json paths', async () => {
+    const content = await writeAll(join(await dir, 'entities.json'), [JSON_ENTITY, BINARY_ENTITY]);
+    const records = JSON.parse(content) as EntityRecord[];
+    assert.deepEqual(records.map(fromEntityRecord), [JSON_ENTITY, BINARY_ENTITY]);
+
+    const empty = await writeAll(join(await dir, 'empty.json'), []);
+    assert.deepEqual(JSON.parse(empty), []);
+  });
+});
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  createUniswapPools,
+  fullRangeTicks,
+  poolAddress,
+  poolKey,
+  sqrtPriceAtTick,
+  tickAtSqrtPrice,
+} from '../lib/uniswap-pools';
+
+const USDC_WETH = poolKey('WETH', 'USDC', 500);
+// WETH per USDC: token0 is USDC, the lower address
+const PRICE = 1 / 2500;
+// Raw liquidity: about 50M USDC and 20k WETH over the full range
+const LIQUIDITY = 1e18;
+
+function approx(actual: number, expected: number, tolerance = 1e-9) {
+  assert.ok(
+    Math.abs(actual - expected) <= Math.abs(expected) * tolerance,
+    `${actual} is not within ${tolerance} of ${expected}`
+  );
+}
+
+function fullRangePool() {
+  const pools = createUniswapPools();
+  const pool = pools.initialize(USDC_WETH, PRICE);
+  const [lower, upper] = fullRangeTicks(pool.tickSpacing);
+  pools.mint(pool.id, 'lp', lower, upper, LIQUIDITY);
+  return { pools, pool, lower, upper };
+}
+
+describe('uniswap pools', () => {
+  it('orders tokens and derives the mainnet pool address', () => {
+    assert.deepEqual(USDC_WETH, { token0: 'USDC', token1: 'WETH', fee: 500 });
+    assert.equal(poolAddress(USDC_WETH), '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640');
+  });
+
+  it('converts between ticks and sqrt prices', () => {
+    for (const tick of [-200000, -1, 0, 1, 195000]) {
+      assert.equal(tickAtSqrtPrice(sqrtPriceAtTick(tick) * (1 + 1e-12)), tick);
+    }
+  });
+
+  it('initializes pools at the given price in token units', () => {
+    const { pools, pool } = fullRangePool();
+    approx(pools.price(pool.id), PRICE);
+  });
+
+  it('charges the fee tier on the input and moves the price', () => {
+    const { pools, pool } = fullRangePool();
+    const swap = pools.swap(pool.id, true, 10_000);
+
+    approx(swap.amountIn, 10_000);
+    approx(swap.feeAmount, 10_000 * 0.0005);
+    // A small trade against deep liquidity fills close to the pool price
+    approx(swap.amountOut, 10_000 * 0.9995 * PRICE, 1e-3);
+    assert.ok(swap.amountOut < 10_000 * 0.9995 * PRICE);
+    assert.ok(pools.price(pool.id) < PRICE);
+  });
+
+  it('never pays out more than was swapped in on a round trip', () => {
+    const { pools, pool } = fullRangePool();
+    const there = pools.swap(pool.id, true, 50_000);
+    const back = pools.swap(pool.id, false, there.amountOut);
+    assert.ok(back.amountOut < 50_000);
+  });
+
+  it('owes burned liquidity and earned fees until collected', () => {
+    const { pools, pool, lower, upper } = fullRangePool();
+    const minted = pools.amountsForLiquidity(pool.id, lower, upper, LIQUIDITY);
+    const { amountIn, amountOut, feeAmount } = pools.swap(pool.id, true, 10_000);
+    const burned = pools.burn(pool.id, 'lp', lower, upper, LIQUIDITY);
+
+    // The position holds the swap input without the fee, less the output
+    approx(burned.amount0, minted.amount0 + amountIn - feeAmount, 1e-6);
+    approx(burned.amount1, minted.amount1 - amountOut, 1e-6);
+
+    // The only position gets every fee
+    const collected = pools.collect(pool.id, 'lp', lower, upper);
+    approx(collected.amount0, burned.amount0 + feeAmount);
+    approx(collected.amount1, burned.amount1);
+    assert.equal(pools.pool(pool.id)!.positions.length, 0);
+  });
+
+  it('changes the active liquidity when a swap crosses a position boundary', () => {
+    const { pools, pool } = fullRangePool();
+    const spacing = pool.tickSpacing;
+    const tickLower = Math.floor(pool.tick / spacing) * spacing - spacing;
+    const tickUpper = tickLower + 3 * spacing;
+    pools.mint(pool.id, 'narrow', tickLower, tickUpper, LIQUIDITY);
+    assert.equal(pools.pool(pool.id)!.liquidity, 2 * LIQUIDITY);
+
+    pools.swap(pool.id, true, 10_000_000);
+    const after = pools.pool(pool.id)!;
+    assert.ok(after.tick < tickLower);
+    assert.equal(after.liquidity, LIQUIDITY);
+  });
+
+  it('restores the same pools from their saved state', () => {
+    const { pools, pool } = fullRangePool();
+    pools.swap(pool.id, true, 10_000);
+    const restored = createUniswapPools(JSON.parse(JSON.stringify(pools.getState())));
+    assert.deepEqual(restored.swap(pool.id, false, 3), pools.swap(pool.id, false, 3));
+  });
+});
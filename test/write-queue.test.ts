@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import type { CreateEntityParameters } from '@arkiv-network/sdk';
+import { appendDeadLetters, deadLetterEntity, readDeadLetters } from '../lib/dead-letters';
+import { WriteFailedError, type RetryPolicy } from '../lib/retry';
+import { createMemorySink, type EntitySink, type MemorySink } from '../lib/sinks';
+import { createWriteQueue, type QueuedEntity } from '../lib/write-queue';
+
+const RETRY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+function entity(n: number): CreateEntityParameters {
+  return {
+    payload: new TextEncoder().encode(JSON.stringify({ n })),
+    contentType: 'application/json',
+    attributes: [{ key: 'n', value: n }],
+    expiresIn: 100,
+  };
+}
+
+// A memory sink whose first `failures` writes throw `error`
+function flakySink(failures: number, error: Error): MemorySink & { calls: number } {
+  const sink = createMemorySink();
+  const flaky = {
+    ...sink,
+    calls: 0,
+    async write(entity: CreateEntityParameters) {
+      const [receipt] = await flaky.writeBatch([entity]);
+      return receipt;
+    },
+    async writeBatch(entities: CreateEntityParameters[]) {
+      flaky.calls++;
+      if (flaky.calls <= failures) {
+        throw error;
+      }
+      return sink.writeBatch(entities);
+    },
+  };
+  return flaky;
+}
+
+async function writeAll(sink: EntitySink, count: number, batchSize: number, concurrency = 1) {
+  const confirmed: number[] = [];
+  const failed: { items: number[]; error: unknown }[] = [];
+  const retries: string[] = [];
+  const queue = createWriteQueue<number>(sink, {
+    batchSize,
+    concurrency,
+    retry: RETRY,
+    onConfirmed: (item) => confirmed.push(item),
+    onRetry: (_items, _attempt, _delay, { reason }) => retries.push(reason),
+    onFailed: (batch: QueuedEntity<number>[], error) => {
+      failed.push({ items: batch.map(({ item }) => item), error });
+    },
+  });
+  for (let n = 0; n < count; n++) {
+    await queue.push(entity(n), n);
+  }
+  await queue.drain();
+  return { stats: queue.stats, confirmed, failed, retries };
+}
+
+describe('write queue', () => {
+  it('writes entities in batches, in order', async () => {
+    const sink = createMemorySink();
+    const { stats, confirmed, failed } = await writeAll(sink, 7, 3, 2);
+
+    assert.deepEqual(confirmed, [0, 1, 2, 3, 4, 5, 6]);
+    assert.deepEqual(failed, []);
+    assert.equal(stats.transactions, 3);
+    assert.equal(stats.confirmed, 7);
+    assert.deepEqual(
+      sink.entities.map(({ attributes }) => attributes[0].value),
+      [0, 1, 2, 3, 4, 5, 6]
+    );
+  });
+
+  it('retries transient failures', async () => {
+    const sink = flakySink(2, new Error('nonce too low'));
+    const { stats, confirmed, retries } = await writeAll(sink, 2, 2);
+
+    assert.deepEqual(retries, ['nonce', 'nonce']);
+    assert.deepEqual(confirmed, [0, 1]);
+    assert.equal(stats.failed, 0);
+    assert.equal(sink.entities.length, 2);
+  });
+
+  it('gives up on transient failures after the last attempt', async () => {
+    const sink = flakySink(Infinity, new Error('request timed out'));
+    const { stats, failed } = await writeAll(sink, 1, 1);
+
+    assert.equal(sink.calls, RETRY.maxAttempts);
+    assert.equal(stats.failed, 1);
+    const [{ error }] = failed;
+    assert.ok(error instanceof WriteFailedError);
+    assert.equal(error.attempts, RETRY.maxAttempts);
+    assert.deepEqual(error.classification, { kind: 'transient', reason: 'timeout' });
+  });
+
+  it('does not retry permanent failures', async () => {
+    const sink = flakySink(1, new Error('insufficient funds for gas'));
+    const { confirmed, failed, retries } = await writeAll(sink, 3, 3);
+
+    assert.equal(sink.calls, 1);
+    assert.deepEqual(retries, []);
+    assert.deepEqual(confirmed, []);
+    assert.deepEqual(failed[0].items, [0, 1, 2]);
+  });
+});
+
+describe('dead letters', () => {
+  const dir = mkdtemp(join(tmpdir(), 'dead-letters-'));
+  after(async () => rm(await dir, { recursive: true }));
+
+  it('keep failed entities for a replay', async () => {
+    const path = join(await dir, 'dead-letters.ndjson');
+    const sink = flakySink(1, new Error('execution reverted'));
+    const { failed } = await writeAll(sink, 2, 2);
+    await appendDeadLetters(path, [entity(0), entity(1)], failed[0].error);
+
+    const deadLetters = await readDeadLetters(path);
+    assert.equal(deadLetters.length, 2);
+    assert.equal(deadLetters[0].kind, 'permanent');
+    assert.equal(deadLetters[0].reason, 'reverted');
+    assert.equal(deadLetters[0].attempts, 1);
+
+    // The replayed entities are the ones that failed, byte for byte
+    const replay = createMemorySink();
+    await replay.writeBatch(deadLetters.map(deadLetterEntity));
+    assert.deepEqual(replay.entities, [entity(0), entity(1)]);
+  });
+
+  it('report the line of the file a broken record is on', async () => {
+    const path = join(await dir, 'broken.ndjson');
+    await appendDeadLetters(path, [entity(0)], new Error('execution reverted'));
+    await writeFile(path, '\n\n{"truncated', { flag: 'a' });
+    await assert.rejects(readDeadLetters(path), /broken\.ndjson:4: not a valid dead-letter record/);
+  });
+});